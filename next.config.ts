@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Prompt templates are read at runtime (src/lib/prompts.ts)
+  outputFileTracingIncludes: {
+    "/**": ["./prompts/**/*"],
+  },
 };
 
 export default nextConfig;
@@ -1,324 +1,603 @@
-import axios from "axios";
+import { errorResponse, withAuth } from "@/lib/auth";
+import { collectEod, EodCollection, OpenWorkDiagnostics } from "@/lib/collect";
+import {
+  COMMIT_STRATEGIES,
+  collectCommits,
+  CommitStrategy,
+  commitStrategyFromEnv,
+  CommitWindow,
+} from "@/lib/commits";
+import {
+  createGitlabClient,
+  GitlabProject,
+  resolveProjects,
+  TruncatedCall,
+} from "@/lib/gitlab";
+import { getConfig } from "@/lib/config";
+import { buildEodPrompt, eodWindow } from "@/lib/eod";
+import { OpenWork } from "@/lib/openwork";
+import { memberFromEnv, TeamMember } from "@/lib/roster";
+import { summarizeDeployments, summarizePipelines } from "@/lib/pipelines";
+import { loadPromptTemplate } from "@/lib/prompts";
+import { loadRedactionConfig, RedactionReport } from "@/lib/redact";
+import { activityRefs } from "@/lib/structured";
+import { resolveSummarizer } from "@/lib/summarizers";
+import {
+  ActivityItem,
+  groupActivity,
+  incompleteNotice,
+  SourceDiagnostics,
+  sourcesFromEnv,
+} from "@/lib/sources";
+import { EodWindow, formatLabel } from "@/lib/window";
+
+/** In production the route is off unless EOD_DEBUG=true, and then stripped */
+const PRODUCTION = process.env.NODE_ENV === "production";
+const DEBUG_ENABLED = !PRODUCTION || process.env.EOD_DEBUG === "true";
+
+type StrategyResult = {
+  durationMs: number;
+  apiCalls: number;
+  count?: number;
+  truncated?: TruncatedCall[];
+  commits?: Array<{ project: string; branch: string; id: string; title: string }>;
+  error?: string;
+};
+
+type StrategyComparison = {
+  active: CommitStrategy;
+  strategies: Record<CommitStrategy, StrategyResult>;
+  /** "project:sha" found by one strategy only */
+  onlyIn: Record<CommitStrategy, string[]>;
+};
+
+/** Collection diagnostics with the GitLab details moved to their own section */
+type CollectionSection = {
+  startedAt: string;
+  durationMs: number;
+  apiCalls: number;
+  sources: Array<
+    Omit<SourceDiagnostics, "gitlab"> & { timings?: Record<string, number> }
+  >;
+  openWork: OpenWorkDiagnostics;
+};
+
+type Counts = Record<string, Record<string, number>>;
+
+type ActivitySection = {
+  total: number;
+  counts: Counts;
+  ci: { pipelines: string; failedPipelines: string[]; deployments: string };
+  incomplete: string | null;
+  sourceErrors: NonNullable<EodCollection["sourceErrors"]>;
+  failures: NonNullable<EodCollection["failures"]>;
+  items: Array<ActivityItem & { ref?: string }>;
+};
+
+type GitlabSection = {
+  projects: GitlabProject[];
+  commitStrategy: CommitStrategy;
+  branches?: Array<{
+    project: string;
+    name: string;
+    lastCommitAt?: string;
+    lastCommitAtLocal: string;
+    active: boolean;
+  }>;
+  branchStats?: { total: number; active: number; scanned: number };
+  queries?: NonNullable<
+    NonNullable<SourceDiagnostics["gitlab"]>["commits"]["queries"]
+  >;
+  pushEvents?: number;
+  commitsFound: number;
+};
+
+type SummarySection = {
+  totalProjects: number;
+  totalBranches: number;
+  branchesWithCommitsLen: number;
+  totalCommitsByYou: number;
+  mrsCreatedByYou: number;
+  mrsReviewedByYou: number;
+  activityBySource: Counts;
+  apiCalls: number;
+  durationMs: number;
+  branchesWithCommits: Array<{ name: string; project: string; count: number }>;
+};
+
+type PaginationSection = { maxPages: number; capHit: boolean; truncated: TruncatedCall[] };
+
+type DebugReport = {
+  timeWindow: {
+    since: string;
+    until: string;
+    day: string;
+    timezone: string;
+    workingHours: TeamMember["workingHours"] | null;
+    sinceLocal: string;
+    untilLocal: string;
+  };
+  config: {
+    gitlabAPI: string;
+    userId?: string;
+    email: string;
+    username: string;
+    authorFilter: string[];
+    commitStrategy: CommitStrategy;
+    sources: Array<{ name: string; enabled: boolean }>;
+    summarizer: string;
+  };
+  errors: string[];
+  collection?: CollectionSection;
+  activity?: ActivitySection;
+  openWork?: OpenWork | null;
+  redaction?: ReturnType<typeof redactionSection>;
+  /** The prompt a run with this style would send (without a note) */
+  prompt?: { style: string; text: string };
+  gitlab?: GitlabSection;
+  summary?: SummarySection;
+  pagination?: PaginationSection;
+  strategyComparison?: StrategyComparison;
+};
 
-const GITLAB_API = process.env.GITLAB_API!;
-const GITLAB_TOKEN = process.env.GITLAB_TOKEN!;
-const GITLAB_PROJECT_ID = process.env.GITLAB_PROJECT_ID!;
-const GITLAB_USER_ID = process.env.GITLAB_USER_ID!;
-const GITLAB_EMAIL = process.env.GITLAB_EMAIL;
-const GITLAB_USERNAME = process.env.GITLAB_USERNAME;
+/**
+ * What production gets: counts, timings, error strings and pagination. Built
+ * field by field from the full report, so nothing that names a project,
+ * branch, person or item (titles, URLs, descriptions) can slip through.
+ */
+type ProductionDebugReport = {
+  timeWindow: { since: string; until: string; day: string; timezone: string };
+  config: {
+    commitStrategy: CommitStrategy;
+    sources: Array<{ name: string; enabled: boolean }>;
+    summarizer: string;
+  };
+  errors: string[];
+  collection?: {
+    durationMs: number;
+    apiCalls: number;
+    sources: Array<{
+      source: string;
+      ok: boolean;
+      durationMs: number;
+      items: number;
+      apiCalls?: number;
+      error?: string;
+      timings?: Record<string, number>;
+    }>;
+    openWork: OpenWorkDiagnostics;
+  };
+  activity?: {
+    total: number;
+    counts: Counts;
+    incomplete: string | null;
+    sourceErrors: string[];
+    failures: string[];
+  };
+  openWork?: { mergeRequests: number; issues: number; blockers: number };
+  redaction?: { restricted: number; strippedDescriptions: number; redacted: number };
+  commitScan?: {
+    projects: number;
+    branches?: number;
+    activeBranches?: number;
+    scannedBranches?: number;
+    queries?: number;
+    failedQueries?: number;
+    pushEvents?: number;
+    commitsFound: number;
+  };
+  summary?: {
+    totalCommitsByYou: number;
+    mrsCreatedByYou: number;
+    mrsReviewedByYou: number;
+    branchesWithCommits: number;
+    apiCalls: number;
+    durationMs: number;
+  };
+  pagination?: { maxPages: number; capHit: boolean; truncatedCalls: number };
+  strategyComparison?: Record<
+    CommitStrategy,
+    { count?: number; durationMs: number; apiCalls: number; error?: string }
+  >;
+};
+
+function forProduction(report: DebugReport): ProductionDebugReport {
+  const { collection, activity, openWork, redaction, gitlab, summary, pagination } = report;
+  const comparison = report.strategyComparison?.strategies;
+
+  return {
+    timeWindow: {
+      since: report.timeWindow.since,
+      until: report.timeWindow.until,
+      day: report.timeWindow.day,
+      timezone: report.timeWindow.timezone,
+    },
+    config: {
+      commitStrategy: report.config.commitStrategy,
+      sources: report.config.sources,
+      summarizer: report.config.summarizer,
+    },
+    errors: report.errors,
+    ...(collection && {
+      collection: {
+        durationMs: collection.durationMs,
+        apiCalls: collection.apiCalls,
+        sources: collection.sources.map((s) => ({
+          source: s.source,
+          ok: s.ok,
+          durationMs: s.durationMs,
+          items: s.items,
+          apiCalls: s.apiCalls,
+          error: s.error,
+          timings: s.timings,
+        })),
+        openWork: collection.openWork,
+      },
+    }),
+    ...(activity && {
+      activity: {
+        total: activity.total,
+        counts: activity.counts,
+        incomplete: activity.incomplete,
+        sourceErrors: activity.sourceErrors.map((e) => e.error),
+        failures: activity.failures.map((f) => f.error),
+      },
+    }),
+    ...(openWork && {
+      openWork: {
+        mergeRequests: openWork.mergeRequests.length,
+        issues: openWork.issues.length,
+        blockers: openWork.blockers.length,
+      },
+    }),
+    ...(redaction && {
+      redaction: {
+        restricted: redaction.restricted.length,
+        strippedDescriptions: redaction.strippedDescriptions.length,
+        redacted: redaction.redacted.length,
+      },
+    }),
+    ...(gitlab && {
+      commitScan: {
+        projects: gitlab.projects.length,
+        branches: gitlab.branchStats?.total,
+        activeBranches: gitlab.branchStats?.active,
+        scannedBranches: gitlab.branchStats?.scanned,
+        queries: gitlab.queries?.length,
+        failedQueries: gitlab.queries?.filter((q) => q.error).length,
+        pushEvents: gitlab.pushEvents,
+        commitsFound: gitlab.commitsFound,
+      },
+    }),
+    ...(summary && {
+      summary: {
+        totalCommitsByYou: summary.totalCommitsByYou,
+        mrsCreatedByYou: summary.mrsCreatedByYou,
+        mrsReviewedByYou: summary.mrsReviewedByYou,
+        branchesWithCommits: summary.branchesWithCommitsLen,
+        apiCalls: summary.apiCalls,
+        durationMs: summary.durationMs,
+      },
+    }),
+    ...(pagination && {
+      pagination: {
+        maxPages: pagination.maxPages,
+        capHit: pagination.capHit,
+        truncatedCalls: pagination.truncated.length,
+      },
+    }),
+    ...(comparison && {
+      strategyComparison: Object.fromEntries(
+        COMMIT_STRATEGIES.map((strategy) => {
+          const result = comparison[strategy];
+          return [
+            strategy,
+            {
+              count: result.count,
+              durationMs: result.durationMs,
+              apiCalls: result.apiCalls,
+              error: result.error,
+            },
+          ];
+        })
+      ) as ProductionDebugReport["strategyComparison"],
+    }),
+  };
+}
 
 /**
- * Debug route to inspect GitLab commits and MRs
- * GET /api/debug-gitlab?date=YYYY-MM-DD (optional)
- * 
- * Returns detailed information about:
- * - All branches and their last commit dates
- * - Commits from each branch in the time window
- * - MRs created and reviewed
+ * Debug route to inspect what an EOD is built from
+ * GET /debug?date=YYYY-MM-DD&style=<prompt style>&compare=1 (all optional)
+ *
+ * Runs the same collection and prompt rendering as the EOD (collect.ts,
+ * buildEodPrompt), so the activity, open work, prompt and redaction below are
+ * what a report for the window is built from (minus any note):
+ * - The normalized activity items from every configured source (EOD_SOURCES)
+ *   and the open work feeding Next / Blockers
+ * - Per-source timings, API call counts and errors (under `collection`)
+ * - The resolved project list (GITLAB_PROJECT_IDS / GITLAB_GROUP_ID)
+ * - All branches and their last commit dates, per project, and each branch
+ *   query of the commit scan with its count or error (under `gitlab`)
+ * - CI pipelines / deployments in the window (under `activity.ci`)
+ * - The rendered prompt and what redaction left out of it (`prompt`, `redaction`)
+ * - With `compare=1`: branch-scan vs push-events commit strategies side by side
+ *
+ * In production it answers 404 unless EOD_DEBUG=true, and even then returns
+ * only counts, timings, error strings and pagination (see forProduction).
  */
 
-function formatIstLabel(d: Date) {
-  return d.toLocaleString("en-IN", {
-    timeZone: "Asia/Kolkata",
-    weekday: "short",
-    month: "short",
-    day: "numeric",
-    year: "numeric",
-    hour: "2-digit",
-    minute: "2-digit",
-  });
+/** "<status> - <message>", or just the message when there was no HTTP response */
+function errorText(err: any) {
+  const status = err.response?.status;
+  return status ? `${status} - ${err.message}` : err.message;
 }
 
-export async function GET(req: Request) {
+/**
+ * Run every commit strategy on its own client so call counts, timings and
+ * pagination caps are attributed to the right one
+ */
+async function compareStrategies(
+  projects: GitlabProject[],
+  window: CommitWindow
+): Promise<StrategyComparison> {
+  const member = memberFromEnv();
+  const strategies = {} as Record<CommitStrategy, StrategyResult>;
+  const idsByStrategy = {} as Record<CommitStrategy, Set<string>>;
+
+  for (const strategy of COMMIT_STRATEGIES) {
+    const gitlab = createGitlabClient();
+    const started = Date.now();
+    try {
+      const { commits } = await collectCommits(strategy, gitlab, member, projects, window);
+      idsByStrategy[strategy] = new Set(commits.map((c) => `${c.project}:${c.id}`));
+      strategies[strategy] = {
+        count: commits.length,
+        durationMs: Date.now() - started,
+        apiCalls: gitlab.stats.calls,
+        truncated: gitlab.truncated,
+        commits: commits.map((c) => ({
+          project: c.project,
+          branch: c.branch,
+          id: c.id,
+          title: c.title,
+        })),
+      };
+    } catch (err: any) {
+      idsByStrategy[strategy] = new Set();
+      strategies[strategy] = {
+        error: errorText(err),
+        durationMs: Date.now() - started,
+        apiCalls: gitlab.stats.calls,
+      };
+    }
+  }
+
+  const onlyIn = {} as Record<CommitStrategy, string[]>;
+  for (const strategy of COMMIT_STRATEGIES) {
+    const others = COMMIT_STRATEGIES.filter((s) => s !== strategy);
+    onlyIn[strategy] = [...idsByStrategy[strategy]].filter(
+      (id) => !others.some((s) => idsByStrategy[s].has(id))
+    );
+  }
+  return { active: commitStrategyFromEnv(), strategies, onlyIn };
+}
+
+function countItems(items: ActivityItem[]): Counts {
+  const counts: Counts = {};
+  for (const item of items) {
+    counts[item.source] ??= {};
+    counts[item.source][item.kind] = (counts[item.source][item.kind] || 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * What the model would not see, from the run's own redaction (refs match
+ * `activity.items[].ref`)
+ */
+function redactionSection(report: RedactionReport) {
+  const redaction = loadRedactionConfig();
+  return {
+    config: {
+      rules: redaction.rules.map((r) => r.name),
+      denyProjects: redaction.denyProjects,
+      denyBranches: redaction.denyBranches,
+      stripDescriptions: redaction.stripDescriptions,
+      secrets: redaction.secrets,
+      stripUrls: redaction.stripUrls,
+    },
+    ...report,
+  };
+}
+
+function gitlabSection(
+  gitlab: NonNullable<SourceDiagnostics["gitlab"]>,
+  window: EodWindow
+): GitlabSection {
+  const scan = gitlab.commits;
+  const queries = scan.queries ?? [];
+  return {
+    projects: gitlab.projects,
+    commitStrategy: scan.strategy,
+    branches: scan.branches?.map((b) => ({
+      ...b,
+      lastCommitAtLocal: b.lastCommitAt
+        ? formatLabel(new Date(b.lastCommitAt), window.timezone)
+        : "unknown",
+    })),
+    branchStats: scan.branches && {
+      total: scan.branches.length,
+      active: scan.branches.filter((b) => b.active).length,
+      scanned: new Set(queries.map((q) => `${q.project}:${q.branch}`)).size,
+    },
+    queries: scan.queries,
+    pushEvents: scan.pushEvents,
+    commitsFound: scan.found,
+  };
+}
+
+export const GET = withAuth(async (req: Request) => {
+  if (!DEBUG_ENABLED) return errorResponse(404, "Not found");
+
   try {
     const url = new URL(req.url);
-    const dateParam = url.searchParams.get("date");
-
-    // Determine time window
-    let sinceUtc: Date;
-    let untilUtc: Date;
-
-    if (dateParam) {
-      const istMidnight = new Date(`${dateParam}T00:00:00+05:30`);
-      sinceUtc = istMidnight;
-      untilUtc = new Date(istMidnight.getTime() + 24 * 60 * 60 * 1000);
-    } else {
-      untilUtc = new Date();
-      sinceUtc = new Date(untilUtc.getTime() - 24 * 60 * 60 * 1000);
-    }
+    const dateParam = url.searchParams.get("date") ?? undefined;
 
-    const sinceIso = sinceUtc.toISOString();
-    const untilIso = untilUtc.toISOString();
+    const config = getConfig().gitlab;
 
-    const debugInfo: any = {
+    // Determine time window (same rules as the EOD itself)
+    const member = memberFromEnv();
+    const window = eodWindow(member, dateParam);
+    // Resolved up front so an unknown style fails before any API calls
+    const template = loadPromptTemplate(
+      url.searchParams.get("style") ?? undefined
+    );
+
+    const report: DebugReport = {
       timeWindow: {
-        since: sinceIso,
-        until: untilIso,
-        sinceIST: formatIstLabel(sinceUtc),
-        untilIST: formatIstLabel(untilUtc),
+        since: window.since.toISOString(),
+        until: window.until.toISOString(),
+        day: window.day,
+        timezone: window.timezone,
+        workingHours: member.workingHours ?? null,
+        sinceLocal: window.labelSince,
+        untilLocal: window.labelUntil,
       },
       config: {
-        gitlabAPI: GITLAB_API,
-        projectId: GITLAB_PROJECT_ID,
-        userId: GITLAB_USER_ID,
-        email: GITLAB_EMAIL || "not set",
-        username: GITLAB_USERNAME || "not set",
-        authorFilter: GITLAB_EMAIL || GITLAB_USERNAME,
+        gitlabAPI: config.api,
+        userId: config.userId,
+        email: config.email || "not set",
+        username: config.username || "not set",
+        authorFilter: member.authors,
+        commitStrategy: commitStrategyFromEnv(),
+        sources: sourcesFromEnv().map((source) => ({
+          name: source.name,
+          enabled: source.enabled(member),
+        })),
+        summarizer: resolveSummarizer().name,
       },
-      branches: [],
-      commitsPerBranch: {},
-      mrsSummary: {},
       errors: [],
     };
 
     // ---------------------------------------------------------------------------
-    // 1. FETCH ALL BRANCHES with their last commit info
+    // 1. COLLECT, exactly as the EOD does (all sources + open work)
     // ---------------------------------------------------------------------------
-    console.log("📦 Fetching all branches...");
+    console.log("🧩 Collecting activity as the EOD would...");
+    let collection: EodCollection | undefined;
     try {
-      const branchesRes = await axios.get(
-        `${GITLAB_API}/projects/${GITLAB_PROJECT_ID}/repository/branches?per_page=200`,
-        { headers: { "PRIVATE-TOKEN": GITLAB_TOKEN } }
-      );
-
-      const cutoff = new Date(untilUtc.getTime() - 7 * 24 * 60 * 60 * 1000);
-
-      debugInfo.branches = branchesRes.data.map((b: any) => {
-        const commitDate = b.commit ? new Date(b.commit.created_at) : null;
-        const isActive = commitDate && commitDate > cutoff;
-        
-        return {
-          name: b.name,
-          lastCommitDate: commitDate ? commitDate.toISOString() : "unknown",
-          lastCommitDateIST: commitDate ? formatIstLabel(commitDate) : "unknown",
-          isActive,
-          lastCommitMessage: b.commit?.message || "N/A",
-          lastCommitAuthor: b.commit?.author_name || "N/A",
-        };
-      });
-
-      debugInfo.branchStats = {
-        total: branchesRes.data.length,
-        active: debugInfo.branches.filter((b: any) => b.isActive).length,
-      };
-
-      console.log(`✅ Found ${debugInfo.branches.length} total branches, ${debugInfo.branchStats.active} active`);
+      collection = await collectEod(member, window);
     } catch (err: any) {
-      const error = `Branch fetch failed: ${err.response?.status} - ${err.message}`;
-      debugInfo.errors.push(error);
+      const error = `Activity collection failed: ${errorText(err)}`;
+      report.errors.push(error);
       console.error("❌", error);
     }
 
-    // ---------------------------------------------------------------------------
-    // 2. FETCH MRs and collect source branches
-    // ---------------------------------------------------------------------------
-    console.log("🔀 Fetching MRs...");
-    let mrBranches: string[] = [];
-    try {
-      const mrRes = await axios.get(
-        `${GITLAB_API}/projects/${GITLAB_PROJECT_ID}/merge_requests`,
-        {
-          headers: { "PRIVATE-TOKEN": GITLAB_TOKEN },
-          params: {
-            updated_after: sinceIso,
-            updated_before: untilIso,
-            per_page: 100,
-          },
-        }
-      );
-
-      debugInfo.mrsSummary.updatedInWindow = mrRes.data.map((mr: any) => ({
-        title: mr.title,
-        sourceBranch: mr.source_branch,
-        author: mr.author?.name,
-        updatedAt: mr.updated_at,
-        state: mr.state,
-        webUrl: mr.web_url,
-      }));
-
-      mrBranches = mrRes.data.map((mr: any) => mr.source_branch).filter(Boolean);
-      console.log(`✅ Found ${mrRes.data.length} MRs updated in window`);
-    } catch (err: any) {
-      const error = `MR fetch failed: ${err.response?.status} - ${err.message}`;
-      debugInfo.errors.push(error);
-      console.error("❌", error);
-    }
+    if (collection) {
+      const { diagnostics } = collection;
+      report.collection = {
+        ...diagnostics,
+        // GitLab details get their own section below
+        sources: diagnostics.sources.map(({ gitlab, ...source }) => ({
+          ...source,
+          ...(gitlab && { timings: gitlab.timings }),
+        })),
+      };
 
-    // ---------------------------------------------------------------------------
-    // 3. COMBINE BRANCHES (active + MR branches)
-    // ---------------------------------------------------------------------------
-    const activeBranches = debugInfo.branches
-      .filter((b: any) => b.isActive)
-      .map((b: any) => b.name);
-    
-    const allBranches = Array.from(
-      new Set([...activeBranches, ...mrBranches])
-    ).filter(Boolean);
-
-    debugInfo.branchSelection = {
-      activeBranches: activeBranches.length,
-      mrBranches: mrBranches.length,
-      combinedUnique: allBranches.length,
-      branches: allBranches,
-    };
+      // ---------------------------------------------------------------------------
+      // 2. ACTIVITY (normalized items, as fed to the activity text)
+      // ---------------------------------------------------------------------------
+      const counts = countItems(collection.items);
+      const grouped = groupActivity(collection.items);
+      const pipelineSummary = summarizePipelines(grouped.pipelines);
+      const refs = activityRefs(collection.items);
+      report.activity = {
+        total: collection.items.length,
+        counts,
+        ci: {
+          pipelines: pipelineSummary.text || "none",
+          failedPipelines: pipelineSummary.failed.map((p) => p.web_url),
+          deployments: summarizeDeployments(grouped.deployments) || "none",
+        },
+        incomplete: incompleteNotice(collection) ?? null,
+        sourceErrors: collection.sourceErrors ?? [],
+        failures: collection.failures ?? [],
+        items: collection.items.map((item) => ({ ref: refs.get(item), ...item })),
+      };
+      report.openWork = collection.openWork ?? null;
+      const { prompt, redaction } = buildEodPrompt(member, window, collection, template);
+      report.prompt = { style: template.style, text: prompt };
+      report.redaction = redactionSection(redaction);
+
+      // ---------------------------------------------------------------------------
+      // 3. GITLAB: projects, branches and the commit scan
+      // ---------------------------------------------------------------------------
+      const gitlab = diagnostics.sources.find((s) => s.gitlab)?.gitlab;
+      if (gitlab) report.gitlab = gitlabSection(gitlab, window);
+      const queries = report.gitlab?.queries ?? [];
+
+      // ---------------------------------------------------------------------------
+      // 4. SUMMARY STATISTICS
+      // ---------------------------------------------------------------------------
+      const branchesWithCommits = queries
+        .filter((q) => q.commits > 0)
+        .map((q) => ({ name: `${q.project}:${q.branch}`, project: q.project, count: q.commits }));
+
+      report.summary = {
+        totalProjects: gitlab?.projects.length ?? 0,
+        totalBranches: report.gitlab?.branchStats?.scanned ?? 0,
+        branchesWithCommitsLen: branchesWithCommits.length,
+        totalCommitsByYou: grouped.commits.length,
+        mrsCreatedByYou: grouped.mrsCreated.length,
+        mrsReviewedByYou: grouped.mrsReviewed.length,
+        activityBySource: counts,
+        apiCalls: diagnostics.apiCalls,
+        durationMs: diagnostics.durationMs,
+        branchesWithCommits,
+      };
 
-    // ---------------------------------------------------------------------------
-    // 4. FETCH COMMITS FOR EACH BRANCH
-    // ---------------------------------------------------------------------------
-    console.log(`🔍 Fetching commits from ${allBranches.length} branches...`);
-    const authorFilter = GITLAB_EMAIL || GITLAB_USERNAME;
-
-    for (const branch of allBranches) {
-      try {
-        const res = await axios.get(
-          `${GITLAB_API}/projects/${GITLAB_PROJECT_ID}/repository/commits`,
-          {
-            headers: { "PRIVATE-TOKEN": GITLAB_TOKEN },
-            params: {
-              ref_name: branch,
-              since: sinceIso,
-              until: untilIso,
-              author: authorFilter,
-              per_page: 100,
-            },
-          }
-        );
+      // Any list call that stopped at the safety cap means the numbers above are a floor
+      report.pagination = {
+        maxPages: collection.pagination?.maxPages ?? config.maxPages,
+        capHit: Boolean(collection.pagination),
+        truncated: collection.pagination?.truncated ?? [],
+      };
 
-        debugInfo.commitsPerBranch[branch] = {
-          count: res.data.length,
-          commits: res.data.map((c: any) => ({
-            id: c.id,
-            short_id: c.short_id,
-            title: c.title,
-            author_name: c.author_name,
-            author_email: c.author_email,
-            created_at: c.created_at,
-            created_at_IST: formatIstLabel(new Date(c.created_at)),
-            web_url: c.web_url,
-          })),
-        };
-
-        if (res.data.length > 0) {
-          console.log(`  ✅ ${branch}: ${res.data.length} commits`);
-        }
-      } catch (err: any) {
-        const status = err.response?.status;
-        const message = err.response?.data?.message || err.message;
-        
-        debugInfo.commitsPerBranch[branch] = {
-          error: `${status} - ${message}`,
-          count: 0,
-          commits: [],
-        };
-
-        if (status !== 404) {
-          console.warn(`  ⚠️ ${branch}: ${status} - ${message}`);
-        }
+      console.log("\n📊 SUMMARY:");
+      console.log(`  Branches checked: ${report.summary.totalBranches}`);
+      console.log(`  Branches with your commits: ${branchesWithCommits.length}`);
+      console.log(`  Total commits by you: ${grouped.commits.length}`);
+      console.log(`  MRs created by you: ${grouped.mrsCreated.length}`);
+      console.log(`  MRs reviewed by you: ${grouped.mrsReviewed.length}`);
+      console.log(`  API calls: ${diagnostics.apiCalls} in ${diagnostics.durationMs}ms`);
+      if (collection.pagination) {
+        console.log(
+          `  ⚠️ Pagination cap hit on ${collection.pagination.truncated.length} call(s)`
+        );
       }
     }
 
     // ---------------------------------------------------------------------------
-    // 5. FETCH MRs CREATED BY USER
+    // 5. OPTIONAL: COMPARE COMMIT STRATEGIES
     // ---------------------------------------------------------------------------
-    console.log("📝 Fetching MRs created by you...");
-    try {
-      const createdRes = await axios.get(
-        `${GITLAB_API}/projects/${GITLAB_PROJECT_ID}/merge_requests`,
-        {
-          headers: { "PRIVATE-TOKEN": GITLAB_TOKEN },
-          params: {
-            author_id: GITLAB_USER_ID,
-            updated_after: sinceIso,
-            updated_before: untilIso,
-            per_page: 100,
-          },
-        }
-      );
-
-      debugInfo.mrsSummary.createdByUser = createdRes.data.map((mr: any) => ({
-        title: mr.title,
-        description: mr.description?.substring(0, 200) || "No description",
-        sourceBranch: mr.source_branch,
-        createdAt: mr.created_at,
-        updatedAt: mr.updated_at,
-        state: mr.state,
-        webUrl: mr.web_url,
-      }));
-
-      console.log(`✅ Found ${createdRes.data.length} MRs created by you`);
-    } catch (err: any) {
-      const error = `Created MRs fetch failed: ${err.response?.status} - ${err.message}`;
-      debugInfo.errors.push(error);
-      console.error("❌", error);
+    if (url.searchParams.get("compare")) {
+      console.log("⚖️ Comparing commit strategies...");
+      const projects =
+        report.gitlab?.projects ?? (await resolveProjects(createGitlabClient()));
+      report.strategyComparison = await compareStrategies(projects, window);
     }
 
-    // ---------------------------------------------------------------------------
-    // 6. FETCH MRs REVIEWED BY USER
-    // ---------------------------------------------------------------------------
-    console.log("👀 Fetching MRs reviewed by you...");
-    try {
-      const reviewedRes = await axios.get(`${GITLAB_API}/merge_requests`, {
-        headers: { "PRIVATE-TOKEN": GITLAB_TOKEN },
-        params: {
-          reviewer_id: GITLAB_USER_ID,
-          updated_after: sinceIso,
-          updated_before: untilIso,
-          per_page: 100,
-        },
-      });
-
-      debugInfo.mrsSummary.reviewedByUser = reviewedRes.data.map((mr: any) => ({
-        title: mr.title,
-        author: mr.author?.name,
-        state: mr.state,
-        webUrl: mr.web_url,
-      }));
-
-      console.log(`✅ Found ${reviewedRes.data.length} MRs reviewed by you`);
-    } catch (err: any) {
-      const error = `Reviewed MRs fetch failed: ${err.response?.status} - ${err.message}`;
-      debugInfo.errors.push(error);
-      console.error("❌", error);
-    }
-
-    // ---------------------------------------------------------------------------
-    // 7. SUMMARY STATISTICS
-    // ---------------------------------------------------------------------------
-    const totalCommits = Object.values(debugInfo.commitsPerBranch).reduce(
-      (sum: number, branch: any) => sum + (branch.count || 0),
-      0
-    );
-
-    const branchesWithCommits = Object.entries(debugInfo.commitsPerBranch)
-      .filter(([_, data]: any) => data.count > 0)
-      .map(([name, data]: any) => ({ name, count: data.count }));
-
-    debugInfo.summary = {
-      totalBranches: allBranches.length,
-      branchesWithCommitsLen: branchesWithCommits.length,
-      totalCommitsByYou: totalCommits,
-      mrsCreatedByYou: debugInfo.mrsSummary.createdByUser?.length || 0,
-      mrsReviewedByYou: debugInfo.mrsSummary.reviewedByUser?.length || 0,
-      branchesWithCommits,
-    };
-
-    console.log("\n📊 SUMMARY:");
-    console.log(`  Branches checked: ${allBranches.length}`);
-    console.log(`  Branches with your commits: ${branchesWithCommits.length}`);
-    console.log(`  Total commits by you: ${totalCommits}`);
-    console.log(`  MRs created by you: ${debugInfo.summary.mrsCreatedByYou}`);
-    console.log(`  MRs reviewed by you: ${debugInfo.summary.mrsReviewedByYou}`);
-
-    return Response.json(debugInfo, { status: 200 });
+    return Response.json(PRODUCTION ? forProduction(report) : report, {
+      status: 200,
+    });
   } catch (error: any) {
     console.error("❌ Debug route error:", error);
     return Response.json(
       {
         ok: false,
         error: error.message,
-        stack: error.stack,
+        ...(!PRODUCTION && { stack: error.stack }),
       },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}, { scope: "debug", limit: 10 });
@@ -0,0 +1,29 @@
+import { withAuth } from "@/lib/auth";
+import { runHealthChecks } from "@/lib/health";
+
+/**
+ * Health check: config validation, GitLab token scopes, Slack `auth.test` and
+ * the default summarizer's model endpoint, each reported as ok / failing
+ * GET /health → 200 when everything is ok, else 503
+ *
+ * Details are limited to scopes, names and scrubbed error messages; no token
+ * or key is ever echoed back.
+ */
+export const GET = withAuth(async () => {
+  try {
+    const report = await runHealthChecks();
+    if (!report.ok) {
+      console.warn(
+        "⚠️ Health check failing:",
+        Object.entries(report.checks)
+          .filter(([, check]) => !check.ok)
+          .map(([name, check]) => `${name} (${check.error})`)
+          .join(", ")
+      );
+    }
+    return Response.json(report, { status: report.ok ? 200 : 503 });
+  } catch (error: any) {
+    console.error("Health check error:", error.message);
+    return Response.json({ ok: false, error: error.message }, { status: 500 });
+  }
+}, { scope: "health" });
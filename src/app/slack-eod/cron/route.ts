@@ -0,0 +1,107 @@
+import { withAuth } from "@/lib/auth";
+import { handleEODRequest } from "@/lib/eod";
+import { mapLimit } from "@/lib/http";
+import { loadRoster, TeamMember } from "@/lib/roster";
+import { holidaysFromEnv, scheduleDecision } from "@/lib/schedule";
+
+/** Give up on a member's scheduled EOD after this many failed tries a day */
+const MAX_ATTEMPTS = Number(process.env.EOD_SCHEDULE_MAX_ATTEMPTS) || 3;
+
+/** Members generated at once (each run makes its own GitLab / model calls) */
+const CONCURRENCY = Number(process.env.EOD_CRON_CONCURRENCY) || 3;
+
+/** Seconds the platform lets one tick run (Vercel) */
+export const maxDuration = 300;
+
+/**
+ * No member is started after this much of the tick; the rest are listed in
+ * `notReached` and, still being due, picked up by the next tick
+ */
+const START_BUDGET_MS = (maxDuration - 90) * 1000;
+
+async function runScheduled(member: TeamMember) {
+  const schedule = member.schedule!;
+  try {
+    return await handleEODRequest(
+      member,
+      undefined,
+      { channels: schedule.channels, thread: schedule.thread },
+      { maxAttempts: MAX_ATTEMPTS }
+    );
+  } catch (err: any) {
+    console.error(
+      `❌ Scheduled EOD failed for ${member.id}:`,
+      err.response?.data || err.message
+    );
+    return { ok: false, user: member.id, error: err.message as string };
+  }
+}
+
+/**
+ * Scheduled delivery: hit this often (e.g. every 15 minutes from Vercel cron
+ * or any external cron) and every roster member whose schedule is due gets
+ * their EOD, once per local day
+ * GET /slack-eod/cron (?dry=true only reports who is due)
+ *
+ * "Due" = a scheduled weekday, not a holiday (EOD_HOLIDAYS) or day off, and
+ * past the member's local delivery time. The history store skips members
+ * already sent today, so late or repeated ticks never post twice.
+ *
+ * Due members run EOD_CRON_CONCURRENCY (default 3) at a time; any not
+ * started before the tick's time budget are returned as `notReached`.
+ *
+ * Authenticated like every route (see lib/auth.ts); Vercel cron sends
+ * `Authorization: Bearer <CRON_SECRET>`.
+ */
+export const GET = withAuth(async (req: Request) => {
+  try {
+    const url = new URL(req.url);
+    const dryRun = ["1", "true"].includes(url.searchParams.get("dry") || "");
+    const now = new Date();
+    const holidays = holidaysFromEnv();
+    const roster = loadRoster();
+
+    const decisions = roster.map((member) => ({
+      member,
+      decision: scheduleDecision(member, now, holidays),
+    }));
+    const due = decisions.filter((d) => d.decision.due);
+    console.log(`⏰ Scheduled EOD: ${due.length}/${roster.length} member(s) due`);
+
+    const started = Date.now();
+    const notReached: string[] = [];
+    const runs = dryRun
+      ? []
+      : await mapLimit(due, CONCURRENCY, async ({ member }) => {
+          if (Date.now() - started > START_BUDGET_MS) {
+            notReached.push(member.id);
+            return undefined;
+          }
+          return runScheduled(member);
+        });
+    const results = runs.filter((r) => r !== undefined);
+    if (notReached.length) {
+      console.warn(
+        `⚠️ Out of time; ${notReached.length} member(s) left for the next tick: ${notReached.join(", ")}`
+      );
+    }
+
+    const failed = results.filter((r) => !r.ok).length;
+    const skipped = results.filter((r) => "skipped" in r && r.skipped).length;
+    return Response.json({
+      ok: failed === 0,
+      now: now.toISOString(),
+      dryRun,
+      due: due.length,
+      sent: results.length - failed - skipped,
+      skipped,
+      failed,
+      notReached,
+      schedule: decisions.map((d) => d.decision),
+      results,
+    });
+  } catch (error: any) {
+    console.error("Scheduled EOD error:", error.response?.data || error.message);
+    return Response.json({ ok: false, error: error.message }, { status: 500 });
+  }
+}, { scope: "cron" });
@@ -0,0 +1,41 @@
+import { withAuth } from "@/lib/auth";
+import { findMember, loadRoster } from "@/lib/roster";
+import { getStore } from "@/lib/store";
+
+/**
+ * Past EOD / digest runs, newest first
+ * GET /slack-eod/history?user=<id>&from=YYYY-MM-DD&to=YYYY-MM-DD&limit=20&full=true
+ *
+ * `user` matches like /slack-eod/team (id, GitLab id, Slack id, author alias).
+ * Raw activity and summaries are left out unless `full=true`.
+ */
+export const GET = withAuth(async (req: Request) => {
+  try {
+    const url = new URL(req.url);
+    const userParam = url.searchParams.get("user") ?? undefined;
+    const full = ["1", "true"].includes(url.searchParams.get("full") || "");
+    const limit = Number(url.searchParams.get("limit")) || undefined;
+
+    const user = userParam
+      ? (findMember(loadRoster(), userParam)?.id ?? userParam)
+      : undefined;
+
+    const runs = await getStore().list({
+      user,
+      from: url.searchParams.get("from") ?? undefined,
+      to: url.searchParams.get("to") ?? undefined,
+      limit,
+    });
+
+    return Response.json({
+      ok: true,
+      count: runs.length,
+      runs: full
+        ? runs
+        : runs.map(({ activity: _activity, summary: _summary, ...run }) => run),
+    });
+  } catch (error: any) {
+    console.error("EOD history error:", error.message);
+    return Response.json({ ok: false, error: error.message }, { status: 500 });
+  }
+}, { scope: "history" });
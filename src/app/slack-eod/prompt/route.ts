@@ -0,0 +1,40 @@
+import { withAuth } from "@/lib/auth";
+import { previewEODPrompt } from "@/lib/eod";
+import { listStyles } from "@/lib/prompts";
+import { findMember, loadRoster, memberFromEnv } from "@/lib/roster";
+
+/**
+ * Prompt preview: the system message and rendered prompt a daily EOD would
+ * send for `style`, built from the real activity, without calling the model
+ * or posting anything
+ * GET /slack-eod/prompt?style=terse&date=YYYY-MM-DD&user=<id>&note=…
+ *
+ * `user` matches like /slack-eod/team; without it the env member is used.
+ * The response also lists the available styles.
+ */
+export const GET = withAuth(async (req: Request) => {
+  try {
+    const url = new URL(req.url);
+    const userParam = url.searchParams.get("user");
+    const member = userParam ? findMember(loadRoster(), userParam) : memberFromEnv();
+    if (!member) {
+      return Response.json(
+        { ok: false, error: `Unknown roster user: ${userParam}` },
+        { status: 404 }
+      );
+    }
+
+    const preview = await previewEODPrompt(
+      member,
+      url.searchParams.get("date") ?? undefined,
+      {
+        style: url.searchParams.get("style") ?? undefined,
+        note: url.searchParams.get("note") ?? undefined,
+      }
+    );
+    return Response.json({ ok: true, styles: listStyles(), ...preview });
+  } catch (error: any) {
+    console.error("EOD prompt preview error:", error.response?.data || error.message);
+    return Response.json({ ok: false, error: error.message }, { status: 500 });
+  }
+}, { scope: "prompt" });
@@ -0,0 +1,129 @@
+import { withAuth } from "@/lib/auth";
+import {
+  DigestRequest,
+  digestRequestFrom,
+  handleDigestRequest,
+} from "@/lib/digest";
+import { handleEODRequest, RunOptions } from "@/lib/eod";
+import { findMember, loadRoster, TeamMember } from "@/lib/roster";
+import {
+  deliveryFromBody,
+  deliveryFromQuery,
+  DeliveryOptions,
+} from "@/lib/slack";
+
+/**
+ * Team mode: generate and DM the EOD for every roster member in one run
+ * GET /slack-eod/team?date=YYYY-MM-DD&user=<id> (both optional)
+ *
+ * `user` matches a roster entry by id, GitLab user id, Slack id or author alias.
+ * `channel`/`thread` work as on /slack-eod; with `thread=true` the whole team
+ * lands in the same per-day thread. `period` / `from` / `to` switch to digests.
+ * One member failing does not stop the others; members already sent for the
+ * day are skipped unless `force=true`.
+ */
+async function runTeam(
+  dateParam?: string,
+  userParam?: string,
+  delivery: DeliveryOptions = {},
+  digest?: DigestRequest,
+  options: RunOptions = {}
+) {
+  const roster = loadRoster();
+
+  let members: TeamMember[] = roster;
+  if (userParam) {
+    const member = findMember(roster, userParam);
+    if (!member) {
+      return {
+        status: 404,
+        body: { ok: false, error: `Unknown roster user: ${userParam}` },
+      };
+    }
+    members = [member];
+  }
+
+  console.log(`👥 Running EOD for ${members.length} member(s)`);
+
+  const results = [];
+  for (const member of members) {
+    try {
+      results.push(
+        digest
+          ? await handleDigestRequest(member, digest, delivery, options)
+          : await handleEODRequest(member, dateParam, delivery, options)
+      );
+    } catch (err: any) {
+      console.error(
+        `❌ EOD failed for ${member.id}:`,
+        err.response?.data || err.message
+      );
+      results.push({ ok: false, user: member.id, error: err.message });
+    }
+  }
+
+  const failed = results.filter((r) => !r.ok).length;
+  const skipped = results.filter((r) => "skipped" in r && r.skipped).length;
+  return {
+    status: failed === results.length ? 500 : 200,
+    body: {
+      ok: failed === 0,
+      sent: results.length - failed - skipped,
+      skipped,
+      failed,
+      results,
+    },
+  };
+}
+
+/**
+ * GET handler (supports ?date=YYYY-MM-DD&user=<id>&channel=C1&thread=true&period=week&force=true&summarizer=template&style=manager)
+ */
+export const GET = withAuth(async (req: Request) => {
+  try {
+    const url = new URL(req.url);
+    const dateParam = url.searchParams.get("date") ?? undefined;
+    const userParam = url.searchParams.get("user") ?? undefined;
+    // Message ts values are per member, so updates only make sense on /slack-eod
+    const { update: _update, ...delivery } = deliveryFromQuery(url.searchParams);
+    const digest = digestRequestFrom({
+      period: url.searchParams.get("period"),
+      from: url.searchParams.get("from"),
+      to: url.searchParams.get("to"),
+    });
+    const { status, body } = await runTeam(dateParam, userParam, delivery, digest, {
+      force: ["1", "true"].includes(url.searchParams.get("force") || ""),
+      summarizer: url.searchParams.get("summarizer") ?? undefined,
+      style: url.searchParams.get("style") ?? undefined,
+    });
+    return Response.json(body, { status });
+  } catch (error: any) {
+    console.error("Team EOD GET error:", error.response?.data || error.message);
+    return Response.json({ ok: false, error: error.message }, { status: 500 });
+  }
+}, { scope: "team" });
+
+/**
+ * POST handler (supports { "date", "user", "channels", "thread", "period", "from", "to", "force", "summarizer", "style" })
+ */
+export const POST = withAuth(async (req: Request) => {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const { update: _update, ...delivery } = deliveryFromBody(body);
+    const { status, body: result } = await runTeam(
+      body.date ?? undefined,
+      body.user ?? undefined,
+      delivery,
+      digestRequestFrom(body),
+      {
+        force: body.force === true,
+        summarizer: typeof body.summarizer === "string" ? body.summarizer : undefined,
+        style: typeof body.style === "string" ? body.style : undefined,
+      }
+    );
+    return Response.json(result, { status });
+  } catch (error: any) {
+    console.error("Team EOD POST error:", error.response?.data || error.message);
+    return Response.json({ ok: false, error: error.message }, { status: 500 });
+  }
+}, { scope: "team" });
@@ -0,0 +1,69 @@
+import { after } from "next/server";
+import { generateEOD } from "@/lib/eod";
+import { findSlackRequester } from "@/lib/roster";
+import { buildPreviewMessage, respond, verifySlackSignature } from "@/lib/slack";
+
+/**
+ * Slack slash command: /eod [YYYY-MM-DD] [note]
+ *
+ * Anything after the optional date is a free-text note that feeds the
+ * Next / Blockers sections (e.g. `/eod waiting on infra for the DB upgrade`).
+ *
+ * Slack wants an answer within 3 seconds, so we ack with an ephemeral
+ * "generating" note and deliver the preview later through `response_url`.
+ * The preview's buttons are handled by /slack/interactions.
+ */
+export async function POST(req: Request) {
+  const rawBody = await req.text();
+  if (!verifySlackSignature(req.headers, rawBody)) {
+    return Response.json(
+      { ok: false, error: "Invalid Slack signature" },
+      { status: 401 }
+    );
+  }
+
+  const params = new URLSearchParams(rawBody);
+  const slackUserId = params.get("user_id") || "";
+  const responseUrl = params.get("response_url") || "";
+  const text = (params.get("text") || "").trim();
+
+  if (text === "help") {
+    return Response.json({
+      response_type: "ephemeral",
+      text: "Usage: `/eod` for the last 24 hours, `/eod YYYY-MM-DD` for a specific day, plus an optional note: `/eod [YYYY-MM-DD] your note`.",
+    });
+  }
+  const [, date, rest] = text.match(/^(\d{4}-\d{2}-\d{2})?\s*([\s\S]*)$/)!;
+  const dateParam = date || undefined;
+  const note = rest.trim() || undefined;
+
+  const { member, error } = findSlackRequester(slackUserId);
+  if (!member) {
+    return Response.json({
+      response_type: "ephemeral",
+      text: error,
+    });
+  }
+
+  after(async () => {
+    try {
+      const report = await generateEOD(member, dateParam, { note });
+      await respond(
+        responseUrl,
+        buildPreviewMessage({ date: dateParam, note, summary: report.summary })
+      );
+    } catch (err: any) {
+      console.error("❌ /eod generation failed:", err.response?.data || err.message);
+      await respond(responseUrl, {
+        response_type: "ephemeral",
+        replace_original: true,
+        text: `❌ Could not generate your EOD: ${err.message}`,
+      }).catch(() => {});
+    }
+  });
+
+  return Response.json({
+    response_type: "ephemeral",
+    text: "⏳ Generating your EOD preview…",
+  });
+}
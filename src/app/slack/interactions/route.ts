@@ -0,0 +1,212 @@
+import { after } from "next/server";
+import { getConfig } from "@/lib/config";
+import { generateEOD, postReviewedEOD } from "@/lib/eod";
+import { findSlackRequester, TeamMember } from "@/lib/roster";
+import {
+  buildEditModal,
+  buildPreviewMessage,
+  decodeActionState,
+  EOD_ACTIONS,
+  EodActionState,
+  respond,
+  slackClient,
+  verifySlackSignature,
+} from "@/lib/slack";
+
+/**
+ * Slack interactivity endpoint for the /eod preview
+ *
+ * - block_actions: "Post", "Edit" (opens a modal) and "Regenerate" buttons
+ * - view_submission: the edit modal's "Post" button
+ */
+/** Tell the requester why they can't use the preview (see findSlackRequester) */
+function rosterError(responseUrl: string, text: string) {
+  return respond(responseUrl, {
+    response_type: "ephemeral",
+    replace_original: false,
+    text,
+  });
+}
+
+function postedLink(permalink?: string) {
+  const { standupChannel } = getConfig().slack;
+  return permalink ? `<${permalink}|${standupChannel}>` : `${standupChannel}`;
+}
+
+/**
+ * Post a reviewed summary through the run history (see postReviewedEOD) and
+ * report back on the preview. Collection outlives Slack's 3s ack window, so
+ * this runs after the response; on failure the preview stays for a retry.
+ */
+function postReviewed(
+  member: TeamMember,
+  state: Pick<EodActionState, "date" | "note">,
+  summary: string,
+  responseUrl: string | undefined,
+  label: string
+) {
+  after(async () => {
+    try {
+      const result = await postReviewedEOD(member, state.date, summary, {
+        note: state.note,
+      });
+      if (!responseUrl) return;
+      await respond(
+        responseUrl,
+        result.skipped
+          ? { replace_original: false, text: `⏳ ${result.message}` }
+          : {
+              replace_original: true,
+              text: `✅ Posted your ${label} to ${postedLink(result.deliveries[0]?.permalink)}`,
+            }
+      );
+    } catch (err: any) {
+      console.error("❌ EOD post failed:", err.response?.data || err.message);
+      if (responseUrl) {
+        await respond(responseUrl, {
+          response_type: "ephemeral",
+          replace_original: false,
+          text: `❌ Could not post your ${label}: ${err.message}`,
+        }).catch(() => {});
+      }
+    }
+  });
+}
+
+async function handleBlockAction(payload: any) {
+  const action = payload.actions?.[0];
+  const state = decodeActionState(action?.value);
+  const slackUserId = payload.user?.id;
+  const responseUrl = payload.response_url;
+
+  switch (action?.action_id) {
+    case EOD_ACTIONS.post: {
+      // The button value only holds what fit; never post a cut-down summary
+      if (state.truncated) {
+        return respond(responseUrl, {
+          response_type: "ephemeral",
+          replace_original: false,
+          text: "✂️ This EOD is too long to post straight from the preview, so it was cut short. Use *Edit* to shorten it (the end is marked with …) or *Regenerate*.",
+        });
+      }
+      const { member, error } = findSlackRequester(slackUserId);
+      if (!member) return rosterError(responseUrl, error);
+
+      postReviewed(member, state, state.summary, responseUrl, "EOD");
+      return;
+    }
+
+    case EOD_ACTIONS.edit: {
+      await slackClient().views.open({
+        trigger_id: payload.trigger_id,
+        view: buildEditModal(state, responseUrl),
+      });
+      return;
+    }
+
+    case EOD_ACTIONS.regenerate: {
+      const { member, error } = findSlackRequester(slackUserId);
+      if (!member) return rosterError(responseUrl, error);
+
+      await respond(responseUrl, {
+        replace_original: true,
+        text: "⏳ Regenerating your EOD preview…",
+      });
+      // Regeneration outlives Slack's 3s ack window
+      after(async () => {
+        try {
+          const report = await generateEOD(member, state.date, {
+            note: state.note,
+          });
+          await respond(
+            responseUrl,
+            buildPreviewMessage({
+              date: state.date,
+              note: state.note,
+              summary: report.summary,
+            })
+          );
+        } catch (err: any) {
+          console.error("❌ EOD regenerate failed:", err.response?.data || err.message);
+          await respond(responseUrl, {
+            replace_original: true,
+            text: `❌ Could not regenerate your EOD: ${err.message}`,
+          }).catch(() => {});
+        }
+      });
+      return;
+    }
+
+    default:
+      console.warn("⚠️ Unknown EOD action:", action?.action_id);
+  }
+}
+
+async function handleViewSubmission(payload: any) {
+  const view = payload.view;
+  if (view?.callback_id !== EOD_ACTIONS.editModal) return null;
+
+  const summary: string =
+    view.state?.values?.[EOD_ACTIONS.summaryBlock]?.[EOD_ACTIONS.summaryInput]
+      ?.value || "";
+  if (!summary.trim()) {
+    return {
+      response_action: "errors",
+      errors: { [EOD_ACTIONS.summaryBlock]: "The summary can't be empty" },
+    };
+  }
+
+  const metadata = JSON.parse(view.private_metadata || "{}");
+  const { member, error } = findSlackRequester(payload.user.id);
+  if (!member) {
+    return {
+      response_action: "errors",
+      errors: { [EOD_ACTIONS.summaryBlock]: error },
+    };
+  }
+
+  postReviewed(member, metadata, summary, metadata.responseUrl, "edited EOD");
+  return null;
+}
+
+export async function POST(req: Request) {
+  const rawBody = await req.text();
+  if (!verifySlackSignature(req.headers, rawBody)) {
+    return Response.json(
+      { ok: false, error: "Invalid Slack signature" },
+      { status: 401 }
+    );
+  }
+
+  let payload: any;
+  try {
+    payload = JSON.parse(new URLSearchParams(rawBody).get("payload") || "");
+  } catch {
+    return Response.json({ ok: false, error: "Invalid payload" }, { status: 400 });
+  }
+
+  try {
+    if (payload.type === "block_actions") {
+      await handleBlockAction(payload);
+      return new Response(null, { status: 200 });
+    }
+
+    if (payload.type === "view_submission") {
+      const result = await handleViewSubmission(payload);
+      // An empty 200 closes the modal
+      return result ? Response.json(result) : new Response(null, { status: 200 });
+    }
+
+    return new Response(null, { status: 200 });
+  } catch (error: any) {
+    console.error("Slack interaction error:", error.data || error.message);
+    if (payload.response_url) {
+      await respond(payload.response_url, {
+        response_type: "ephemeral",
+        replace_original: false,
+        text: `❌ ${error.message}`,
+      }).catch(() => {});
+    }
+    return new Response(null, { status: 200 });
+  }
+}
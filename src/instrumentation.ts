@@ -0,0 +1,16 @@
+/**
+ * Runs once when the server starts: report configuration problems up front
+ * instead of on the first EOD run. The server still starts so /health can
+ * report them too.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { getConfig } = await import("./lib/config");
+  try {
+    getConfig();
+    console.log("✅ Configuration OK");
+  } catch (err: any) {
+    console.error(`❌ ${err.message}`);
+  }
+}
@@ -0,0 +1,214 @@
+import crypto from "crypto";
+import { splitList } from "./util";
+
+/**
+ * Authentication + rate limiting for the HTTP routes (the Slack routes use
+ * Slack's own signatures instead, see slack.ts)
+ *
+ * A request is accepted with any of:
+ * - `Authorization: Bearer <token>` for a token in EOD_API_TOKENS
+ *   (comma-separated, optionally named: "ci:abc123,alice:def456")
+ * - `Authorization: Bearer <CRON_SECRET>` (what Vercel cron sends)
+ * - an HMAC signature with EOD_HMAC_SECRET: `X-EOD-Timestamp: <unix seconds>`
+ *   and `X-EOD-Signature: v1=<hex sha256>` over
+ *   `v1:<timestamp>:<METHOD>:<path + query>:<raw body>`
+ *
+ * With none of those configured, routes are open outside production and
+ * closed in production.
+ *
+ * A signature is accepted once: replays inside the 5-minute tolerance are
+ * rejected by this server instance (other instances only see the tolerance,
+ * so keep clocks in sync and requests over HTTPS). Failed attempts are
+ * throttled per client address (FAILED_AUTH_LIMIT per minute, all routes).
+ */
+
+export type Caller = {
+  /** Rate limit key: token name, "cron", "hmac" or the client address */
+  id: string;
+  via: "token" | "cron" | "hmac" | "open";
+};
+
+export type GuardOptions = {
+  /** Rate limit bucket, e.g. "slack-eod" */
+  scope: string;
+  /** Requests per caller per minute (default EOD_RATE_LIMIT, else 30) */
+  limit?: number;
+};
+
+const SIGNATURE_TOLERANCE_SECONDS = 60 * 5;
+const RATE_WINDOW_MS = 60 * 1000;
+const DEFAULT_RATE_LIMIT = Number(process.env.EOD_RATE_LIMIT) || 30;
+/** Failed authentications per client address per minute before 429s */
+const FAILED_AUTH_LIMIT = 10;
+
+/** `{ ok: false, error }` with the status, shared by every route */
+export function errorResponse(
+  status: number,
+  error: string,
+  headers: Record<string, string> = {}
+) {
+  return Response.json({ ok: false, error }, { status, headers });
+}
+
+function apiTokens() {
+  return splitList(process.env.EOD_API_TOKENS).map((entry, i) => {
+    const at = entry.indexOf(":");
+    return at > 0
+      ? { name: entry.slice(0, at), token: entry.slice(at + 1) }
+      : { name: `token#${i + 1}`, token: entry };
+  });
+}
+
+function safeEqual(a: string, b: string) {
+  const x = Buffer.from(a);
+  const y = Buffer.from(b);
+  return x.length === y.length && crypto.timingSafeEqual(x, y);
+}
+
+function clientAddress(req: Request) {
+  return (
+    req.headers.get("x-forwarded-for")?.split(",")[0].trim() ||
+    req.headers.get("x-real-ip") ||
+    "anonymous"
+  );
+}
+
+/** Signatures already used ("timestamp:signature" → expiry in ms) */
+const seenSignatures = new Map<string, number>();
+
+async function verifyHmac(req: Request, secret: string) {
+  const timestamp = req.headers.get("x-eod-timestamp");
+  const signature = req.headers.get("x-eod-signature");
+  if (!timestamp || !signature) return false;
+
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const url = new URL(req.url);
+  const body = await req.clone().text();
+  const expected =
+    "v1=" +
+    crypto
+      .createHmac("sha256", secret)
+      .update(`v1:${timestamp}:${req.method}:${url.pathname}${url.search}:${body}`)
+      .digest("hex");
+  if (!safeEqual(expected, signature)) return false;
+
+  const now = Date.now();
+  for (const [key, expires] of seenSignatures) {
+    if (expires <= now) seenSignatures.delete(key);
+  }
+  const key = `${timestamp}:${signature}`;
+  if (seenSignatures.has(key)) {
+    console.warn("⚠️ Rejected a replayed request signature");
+    return false;
+  }
+  seenSignatures.set(key, (Number(timestamp) + SIGNATURE_TOLERANCE_SECONDS) * 1000);
+  return true;
+}
+
+/**
+ * Who is calling, or a reason to reject them
+ */
+export async function authenticate(
+  req: Request
+): Promise<{ caller: Caller } | { error: string }> {
+  const tokens = apiTokens();
+  const cronSecret = process.env.CRON_SECRET;
+  const hmacSecret = process.env.EOD_HMAC_SECRET;
+
+  const bearer = req.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (bearer) {
+    if (cronSecret && safeEqual(bearer, cronSecret)) {
+      return { caller: { id: "cron", via: "cron" } };
+    }
+    const match = tokens.find((t) => safeEqual(bearer, t.token));
+    if (match) return { caller: { id: match.name, via: "token" } };
+    return { error: "Invalid bearer token" };
+  }
+
+  if (hmacSecret && req.headers.get("x-eod-signature")) {
+    return (await verifyHmac(req, hmacSecret))
+      ? { caller: { id: "hmac", via: "hmac" } }
+      : { error: "Invalid or expired request signature" };
+  }
+
+  if (!tokens.length && !cronSecret && !hmacSecret) {
+    if (process.env.NODE_ENV !== "production") {
+      return { caller: { id: clientAddress(req), via: "open" } };
+    }
+    console.error(
+      "❌ No EOD_API_TOKENS / EOD_HMAC_SECRET / CRON_SECRET set; rejecting request"
+    );
+  }
+  return { error: "Authentication required" };
+}
+
+/** Fixed one-minute windows per key (per server instance) */
+const windows = new Map<string, { start: number; count: number }>();
+
+/**
+ * Add `hits` to the key's current window; returns the seconds until it
+ * resets when the count is over `limit`
+ */
+function count(key: string, hits: number, limit: number) {
+  const now = Date.now();
+  for (const [k, w] of windows) {
+    if (now - w.start >= RATE_WINDOW_MS) windows.delete(k);
+  }
+  const current = windows.get(key) ?? { start: now, count: 0 };
+  current.count += hits;
+  if (current.count) windows.set(key, current);
+
+  if (current.count <= limit) return undefined;
+  return Math.ceil((current.start + RATE_WINDOW_MS - now) / 1000);
+}
+
+/**
+ * Count a request against the caller's budget; returns the seconds to wait
+ * when over it
+ */
+export function rateLimit(caller: Caller, options: GuardOptions) {
+  return count(`${options.scope}:${caller.id}`, 1, options.limit ?? DEFAULT_RATE_LIMIT);
+}
+
+function tooManyRequests(retryAfter: number) {
+  return errorResponse(429, "Too many requests", { "Retry-After": String(retryAfter) });
+}
+
+/**
+ * Authenticate and rate-limit; returns the 401 / 429 response to send, or
+ * undefined to let the request through
+ */
+export async function guard(req: Request, options: GuardOptions) {
+  // Checked before authenticating, so a good guess is not let through either
+  const failures = `auth-failures:${clientAddress(req)}`;
+  const lockedOut = count(failures, 0, FAILED_AUTH_LIMIT - 1);
+  if (lockedOut !== undefined) return tooManyRequests(lockedOut);
+
+  const result = await authenticate(req);
+  if ("error" in result) {
+    if (count(failures, 1, FAILED_AUTH_LIMIT - 1) !== undefined) {
+      console.warn(`⚠️ Too many failed authentications from ${clientAddress(req)}`);
+    }
+    return errorResponse(401, result.error, { "WWW-Authenticate": "Bearer" });
+  }
+
+  const retryAfter = rateLimit(result.caller, options);
+  if (retryAfter !== undefined) {
+    console.warn(`⚠️ Rate limit hit: ${options.scope} by ${result.caller.id}`);
+    return tooManyRequests(retryAfter);
+  }
+  return undefined;
+}
+
+/**
+ * Wrap a route handler with `guard`:
+ * `export const GET = withAuth(async (req) => …, { scope: "slack-eod" })`
+ */
+export function withAuth(
+  handler: (req: Request) => Promise<Response>,
+  options: GuardOptions
+) {
+  return async (req: Request) => (await guard(req, options)) ?? handler(req);
+}
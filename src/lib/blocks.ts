@@ -0,0 +1,320 @@
+import type { EodReport } from "./eod";
+import { groupByTransition } from "./lifecycle";
+import { summarizeDeployments, summarizePipelines } from "./pipelines";
+import { ActivityItem, groupActivity, incompleteNotice } from "./sources";
+import { buildRefIndex, refTarget, SummaryBullet } from "./structured";
+import { plural } from "./util";
+
+// Slack limits: 50 blocks per message, 3000 chars per section text
+const MAX_BLOCKS = 50;
+const MAX_SECTION_TEXT = 3000;
+const MAX_LINKED_COMMITS = 10;
+
+/**
+ * Escape the three characters Slack treats as control sequences in mrkdwn
+ */
+function escapeMrkdwn(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/** Clickable `<url|title>` link */
+function link(url: string, title: string) {
+  const label = escapeMrkdwn(title).replace(/\|/g, "¦");
+  return url ? `<${url}|${label}>` : label;
+}
+
+function clip(text: string) {
+  return text.length > MAX_SECTION_TEXT
+    ? `${text.slice(0, MAX_SECTION_TEXT - 1)}…`
+    : text;
+}
+
+function section(text: string) {
+  return { type: "section", text: { type: "mrkdwn", text: clip(text) } };
+}
+
+export function context(text: string) {
+  return { type: "context", elements: [{ type: "mrkdwn", text: clip(text) }] };
+}
+
+/**
+ * Split the model's nested-bullet output into one chunk per top-level topic.
+ * The `*EOD UPDATE*` (or digest) title line is dropped (the header block
+ * replaces it); Markdown `**bold**` is converted to Slack's `*bold*`.
+ * Bold-only lines (`*Done*`, `*Next*`, `*Blockers*`) become their own chunk.
+ */
+function topicsFromSummary(summary: string, title = "EOD UPDATE") {
+  const topics: string[][] = [];
+  const isTitle = (line: string) =>
+    line.replace(/^\*+/, "").toUpperCase().startsWith(title.toUpperCase());
+
+  for (const rawLine of summary.split("\n")) {
+    if (!rawLine.trim() || isTitle(rawLine.trim())) continue;
+
+    const line = rawLine.replace(/\*\*(.+?)\*\*/g, "*$1*");
+    const match = line.match(/^(\s*)[-*•]\s+(.*)$/);
+
+    if (!match && /^\*[^*]+\*:?$/.test(line.trim())) {
+      topics.push([line.trim()]);
+    } else if (match && match[1].length === 0) {
+      topics.push([`*${match[2].replace(/^\*(.*)\*$/, "$1")}*`]);
+    } else if (match) {
+      const detail = `    • ${match[2]}`;
+      if (topics.length) topics[topics.length - 1].push(detail);
+      else topics.push([detail]);
+    } else if (topics.length) {
+      topics[topics.length - 1].push(line.trim());
+    } else {
+      topics.push([line.trim()]);
+    }
+  }
+
+  return topics.map((lines) => lines.join("\n"));
+}
+
+function itemLines(items: ActivityItem[]) {
+  return items.map(
+    (item) =>
+      `• \`${item.project}\` ${link(item.web_url, item.title)}${
+        item.detail ? ` _(${escapeMrkdwn(item.detail)})_` : ""
+      }`
+  );
+}
+
+/**
+ * Sections built straight from collected activity, used when the model call
+ * failed: same content as the raw dump, but with links instead of long URLs.
+ */
+function activitySections(report: EodReport) {
+  const { commits, mrsCreated, mrsReviewed, issues, comments } = groupActivity(
+    report.items
+  );
+  const sections: string[] = [];
+
+  if (commits.length) {
+    sections.push(
+      [
+        `*Commits (${commits.length})*`,
+        ...commits.map(
+          (c) =>
+            `• \`${c.project}\` ${link(c.web_url, c.title)}${
+              c.branch ? ` _(${c.branch})_` : ""
+            }`
+        ),
+      ].join("\n")
+    );
+  }
+  for (const group of groupByTransition(mrsCreated)) {
+    sections.push([`*${group.heading}*`, ...itemLines(group.mrs)].join("\n"));
+  }
+  if (mrsReviewed.length) {
+    sections.push(["*MRs Reviewed*", ...itemLines(mrsReviewed)].join("\n"));
+  }
+  if (issues.length) {
+    sections.push(["*Issues Updated*", ...itemLines(issues)].join("\n"));
+  }
+  if (comments.length) {
+    sections.push(["*Comments*", ...itemLines(comments)].join("\n"));
+  }
+
+  if (!sections.length) sections.push("No activity on GitLab today.");
+
+  const { openWork, note } = report;
+  if (openWork?.mergeRequests.length || openWork?.issues.length) {
+    sections.push(
+      [
+        "*Next (open work)*",
+        ...openWork.mergeRequests.map(
+          (mr) =>
+            `• \`${mr.project}\` ${link(mr.web_url, mr.title)}${mr.draft ? " _(draft)_" : ""}`
+        ),
+        ...openWork.issues.map(
+          (i) => `• \`${i.project}\` ${link(i.web_url, i.title)}`
+        ),
+      ].join("\n")
+    );
+  }
+  if (openWork) {
+    sections.push(
+      [
+        "*Blockers*",
+        ...(openWork.blockers.length
+          ? openWork.blockers.map(
+              (b) => `• ${link(b.web_url, b.title)} — ${escapeMrkdwn(b.reason)}`
+            )
+          : ["• None"]),
+      ].join("\n")
+    );
+  }
+  if (note) sections.push(`*Note*\n${escapeMrkdwn(note)}`);
+
+  return sections;
+}
+
+/**
+ * Sections straight from the validated structured summary: each bullet
+ * followed by links to the items it cites
+ */
+function structuredSections(report: EodReport) {
+  const summary = report.structured!;
+  const refs = buildRefIndex(report.items, report.openWork);
+  const cited = (bullet: SummaryBullet) => {
+    const links = bullet.refs
+      .map((ref) => refTarget(refs, ref))
+      .filter((t) => t?.web_url)
+      .map((t) => link(t!.web_url, "↗"));
+    return links.length ? ` ${links.join(" ")}` : "";
+  };
+  const line = (bullet: SummaryBullet, indent = "") =>
+    `${indent}• ${escapeMrkdwn(bullet.text)}${cited(bullet)}`;
+
+  const list = (title: string, bullets: SummaryBullet[]) =>
+    [title, ...(bullets.length ? bullets.map((b) => line(b)) : ["• None"])].join("\n");
+
+  return [
+    "*Done*",
+    ...(summary.done.length
+      ? summary.done.map((topic) =>
+          [
+            `*${escapeMrkdwn(topic.title)}*`,
+            ...topic.bullets.map((b) => line(b, "    ")),
+          ].join("\n")
+        )
+      : ["No activity on GitLab today."]),
+    list("*Next*", summary.next),
+    list("*Blockers*", summary.blockers),
+  ];
+}
+
+/**
+ * `prefix` and up to `max` links joined with " · ", each added whole while
+ * the line fits a context block, then "…and N more" for the rest (so no
+ * `<url|label>` is ever cut in half)
+ */
+function linkLine(prefix: string, links: string[], max = links.length) {
+  // Room for the "…and N more" tail
+  const budget = MAX_SECTION_TEXT - 24;
+  let text = prefix;
+  let shown = 0;
+  for (const l of links.slice(0, max)) {
+    const next = shown ? `${text} · ${l}` : `${text}${l}`;
+    if (next.length > budget) break;
+    text = next;
+    shown++;
+  }
+  const more = links.length - shown;
+  return more > 0 ? `${text}${shown ? " " : ""}…and ${more} more` : text;
+}
+
+/**
+ * Compact clickable references shown under the AI summary
+ */
+function referenceLines(report: EodReport) {
+  const { commits, mrsCreated, mrsReviewed, issues } = groupActivity(report.items);
+  const lines: string[] = [];
+
+  const mrs = [...mrsCreated, ...mrsReviewed];
+  if (mrs.length) {
+    lines.push(linkLine("🔀 ", mrs.map((mr) => link(mr.web_url, mr.title))));
+  }
+
+  if (issues.length) {
+    lines.push(linkLine("🎫 ", issues.map((i) => link(i.web_url, i.title))));
+  }
+
+  if (commits.length) {
+    lines.push(
+      linkLine(
+        "📝 ",
+        commits.map((c) => link(c.web_url, c.title)),
+        MAX_LINKED_COMMITS
+      )
+    );
+  }
+
+  return lines;
+}
+
+/**
+ * "🚦 Pipelines: 5 passed, 1 failed (#123) · 🚀 deployed to staging", with
+ * failed pipelines linked; empty when there was no CI activity
+ */
+function ciLine(report: EodReport) {
+  const { pipelines, deployments } = groupActivity(report.items);
+  const parts: string[] = [];
+  if (pipelines.length) {
+    const { text, failed } = summarizePipelines(pipelines);
+    const links = failed.map((p) => link(p.web_url, `#${p.id}`)).join(", ");
+    parts.push(`🚦 Pipelines: ${text}${links ? ` (${links})` : ""}`);
+  }
+  const deployed = summarizeDeployments(deployments);
+  if (deployed) parts.push(`🚀 ${deployed}`);
+  return parts.join("  ·  ");
+}
+
+/**
+ * Default footer counts; ticket counts only when a ticket source reported any
+ */
+function defaultCounts(report: EodReport) {
+  const { commits, mrsCreated, mrsReviewed, issues, comments } = groupActivity(
+    report.items
+  );
+  const merged = mrsCreated.filter((mr) => mr.transitions?.includes("merged"));
+  const opened = mrsCreated.filter((mr) => mr.transitions?.includes("opened"));
+  return [
+    `📝 ${plural(commits.length, "commit")}`,
+    `🔀 ${plural(mrsCreated.length, "MR")} (${opened.length} opened, ${merged.length} merged)`,
+    `👀 ${plural(mrsReviewed.length, "MR")} reviewed`,
+    ...(issues.length ? [`🎫 ${plural(issues.length, "issue")} updated`] : []),
+    ...(comments.length ? [`💬 ${plural(comments.length, "comment")}`] : []),
+  ];
+}
+
+/**
+ * Block Kit rendering of an EOD: header, window, one section per topic,
+ * counts and clickable MR/commit links. `text` stays the notification fallback.
+ */
+export function buildEodBlocks(report: EodReport) {
+  const blocks: any[] = [
+    {
+      type: "header",
+      text: {
+        type: "plain_text",
+        text: report.title ?? "EOD UPDATE",
+        emoji: true,
+      },
+    },
+    context(`🗓️ ${report.labelSince} → ${report.labelUntil}`),
+    { type: "divider" },
+  ];
+
+  const topics = report.aiFailed
+    ? activitySections(report)
+    : report.structured
+      ? structuredSections(report)
+      : topicsFromSummary(report.summary, report.title);
+  for (const topic of topics) blocks.push(section(topic));
+
+  if (!report.aiFailed) {
+    for (const line of referenceLines(report)) blocks.push(context(line));
+  }
+
+  const ci = ciLine(report);
+  if (ci) blocks.push(context(ci));
+
+  const counts = report.counts ?? defaultCounts(report);
+  const footer = [{ type: "divider" }, context(counts.join("  ·  "))];
+  if (report.aiFailed) {
+    footer.push(context("⚠️ AI summary unavailable — showing raw activity"));
+  }
+  const incomplete = incompleteNotice(report);
+  if (incomplete) {
+    footer.push(context(`⚠️ Report ${incomplete}; some activity may be missing`));
+  }
+
+  // Keep the footer even when a very long summary would overflow the block cap
+  return [...blocks.slice(0, MAX_BLOCKS - footer.length), ...footer];
+}
@@ -0,0 +1,34 @@
+import { createGitlabClient, GitlabClient } from "./gitlab";
+import { SlackApi, slackClient } from "./slack";
+import { EodStore, getStore } from "./store";
+import { resolveSummarizer, Summarizer } from "./summarizers";
+
+/**
+ * The outside services an EOD run talks to: GitLab (collector), the model
+ * (summarizer), Slack (poster) and the run history. Runs build them through
+ * these factories so tests can swap in recorded GitLab responses, a fake
+ * Slack client or a stub model endpoint (see test/helpers).
+ *
+ * `gitlab` is called once per source / lookup: each call gets a fresh
+ * client, so its `truncated` / `failures` belong to that part of the run.
+ */
+export type EodClients = {
+  gitlab: () => GitlabClient;
+  slack: () => SlackApi;
+  summarizer: (name?: string) => Summarizer;
+  store: () => EodStore;
+};
+
+// Wrapped so the lookups happen at call time (sources/ and summarizers/
+// import this module back)
+export const defaultClients: EodClients = {
+  gitlab: () => createGitlabClient(),
+  slack: () => slackClient(),
+  summarizer: (name) => resolveSummarizer(name),
+  store: () => getStore(),
+};
+
+/** The default clients with any of them replaced */
+export function withClients(overrides: Partial<EodClients> = {}): EodClients {
+  return { ...defaultClients, ...overrides };
+}
@@ -0,0 +1,129 @@
+import { EodClients, withClients } from "./clients";
+import { collectOpenWork, OpenWork } from "./openwork";
+import { TeamMember } from "./roster";
+import {
+  CollectedActivity,
+  collectFromSources,
+  SourceDiagnostics,
+  sourcesFromEnv,
+} from "./sources";
+import { EodWindow } from "./window";
+
+/**
+ * Activity collection shared by the EOD and /debug: both call `collectEod`
+ * (and render it with eod.ts `buildEodPrompt`), so /debug shows exactly what
+ * a report for the same window is built from, plus how it was found
+ * (per-source and per-branch results, timings, API call counts).
+ */
+
+/** How the open-work lookup went ("skipped" without a GitLab identity) */
+export type OpenWorkDiagnostics = {
+  status: "ok" | "failed" | "skipped";
+  durationMs: number;
+  apiCalls: number;
+  error?: string;
+};
+
+export type CollectionDiagnostics = {
+  startedAt: string;
+  durationMs: number;
+  /** HTTP calls across every source that counts them and the open work */
+  apiCalls: number;
+  sources: SourceDiagnostics[];
+  openWork: OpenWorkDiagnostics;
+};
+
+/** Everything a daily EOD is built from, and how it was collected */
+export type EodCollection = CollectedActivity & {
+  openWork?: OpenWork;
+  diagnostics: CollectionDiagnostics;
+};
+
+/**
+ * Steps 0–4: collect the member's activity in [since, until) from every
+ * configured source (GitLab by default; see sources/)
+ */
+export function collectActivity(
+  member: TeamMember,
+  window: { since: Date; until: Date },
+  clients: Partial<EodClients> = {}
+): Promise<CollectedActivity> {
+  return collectFromSources(member, window, sourcesFromEnv(), withClients(clients));
+}
+
+/**
+ * Open MRs / issues and signal-based blockers for the Next / Blockers
+ * sections (GitLab only; skipped when the member has no GitLab identity).
+ * A failure here leaves those sections to the note alone.
+ */
+async function openWorkFor(
+  member: TeamMember,
+  day: string,
+  clients: Partial<EodClients>
+): Promise<{ openWork?: OpenWork; diagnostics: OpenWorkDiagnostics }> {
+  if (!member.gitlabUserId || !sourcesFromEnv().some((s) => s.name === "gitlab")) {
+    return { diagnostics: { status: "skipped", durationMs: 0, apiCalls: 0 } };
+  }
+
+  const started = Date.now();
+  const gitlab = withClients(clients).gitlab();
+  try {
+    const openWork = await collectOpenWork(member, day, new Date(), gitlab);
+    return {
+      openWork,
+      diagnostics: {
+        status: "ok",
+        durationMs: Date.now() - started,
+        apiCalls: gitlab.stats.calls,
+      },
+    };
+  } catch (err: any) {
+    console.warn("⚠️ Could not collect open work:", err.message || err);
+    return {
+      diagnostics: {
+        status: "failed",
+        durationMs: Date.now() - started,
+        apiCalls: gitlab.stats.calls,
+        error: err.message || String(err),
+      },
+    };
+  }
+}
+
+/**
+ * A daily EOD's inputs for `window`: the activity of every source and the
+ * member's open work, with diagnostics
+ */
+export async function collectEod(
+  member: TeamMember,
+  window: EodWindow,
+  clients: Partial<EodClients> = {}
+): Promise<EodCollection> {
+  const startedAt = new Date();
+  const activity = await collectActivity(member, window, clients);
+  const { openWork, diagnostics: openWorkDiagnostics } = await openWorkFor(
+    member,
+    window.day,
+    clients
+  );
+
+  // Per-source results move under `diagnostics`
+  const { sources = [], ...collected } = activity;
+  const apiCalls =
+    sources.reduce((sum, s) => sum + (s.apiCalls ?? 0), 0) + openWorkDiagnostics.apiCalls;
+
+  return {
+    ...collected,
+    ...(openWork && { openWork }),
+    ...(openWorkDiagnostics.status === "failed" && {
+      openWorkError: openWorkDiagnostics.error,
+    }),
+    diagnostics: {
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      apiCalls,
+      sources,
+      openWork: openWorkDiagnostics,
+    },
+  };
+}
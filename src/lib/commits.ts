@@ -0,0 +1,342 @@
+import { getConfig } from "./config";
+import { GitlabClient, GitlabProject, projectPath } from "./gitlab";
+import { mapLimit } from "./http";
+import { TeamMember } from "./roster";
+import { DAY_MS } from "./util";
+
+export type CollectedCommit = {
+  id: string;
+  title: string;
+  web_url: string;
+  branch: string;
+  project: string;
+  created_at?: string;
+};
+
+export type CommitWindow = { since: Date; until: Date };
+
+/**
+ * How commits are discovered:
+ * - "branches": scan every recently active / MR branch (one call per branch)
+ * - "events": resolve commits from the user's push events
+ */
+export type CommitStrategy = "branches" | "events";
+
+export const COMMIT_STRATEGIES: CommitStrategy[] = ["branches", "events"];
+
+/** A branch as listed by GitLab, and whether it counted as recently active */
+export type ListedBranch = {
+  project: string;
+  name: string;
+  lastCommitAt?: string;
+  active: boolean;
+};
+
+/** One commit query of the branch scan (per branch and author alias) */
+export type BranchQuery = {
+  project: string;
+  branch: string;
+  /** Why the branch was scanned: recent commits and/or an MR in the window */
+  via: Array<"active" | "mr">;
+  author: string;
+  /** Commits returned, before dedupe */
+  commits: number;
+  /** Set when the query failed (404s included: the branch is gone) */
+  error?: string;
+};
+
+/** How the commits were found, for /debug */
+export type CommitScan = {
+  strategy: CommitStrategy;
+  /** Commits returned by every query, before dedupe */
+  found: number;
+  /** Branch strategy only */
+  branches?: ListedBranch[];
+  queries?: BranchQuery[];
+  /** Events strategy only: push events in the window */
+  pushEvents?: number;
+};
+
+export type CommitCollection = { commits: CollectedCommit[]; scan: CommitScan };
+
+export function commitStrategyFromEnv(): CommitStrategy {
+  const value = process.env.GITLAB_COMMIT_STRATEGY?.trim().toLowerCase();
+  return value === "events" ? "events" : "branches";
+}
+
+/**
+ * Dedupe by project + commit id (forks/mirrors may share ids)
+ */
+function dedupeCommits(commits: CollectedCommit[]) {
+  const seen = new Set<string>();
+  return commits.filter((c) => {
+    const key = `${c.project}:${c.id}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function isAuthoredBy(member: TeamMember, commit: any) {
+  const names = [commit.author_email, commit.author_name]
+    .filter(Boolean)
+    .map((v: string) => v.toLowerCase());
+  // Substring match, like GitLab's own `author` filter
+  return member.authors.some((a) =>
+    names.some((n: string) => n.includes(a.toLowerCase()))
+  );
+}
+
+function inWindow(commit: any, window: CommitWindow) {
+  const at = new Date(commit.committed_date || commit.created_at);
+  return at >= window.since && at < window.until;
+}
+
+/**
+ * Branch strategy: candidate branches are those with a commit in the 7 days
+ * before the window end plus MR source branches updated in the window; each
+ * is queried for commits by every author alias.
+ */
+export async function collectCommitsFromBranches(
+  gitlab: GitlabClient,
+  member: TeamMember,
+  projects: GitlabProject[],
+  window: CommitWindow
+): Promise<CommitCollection> {
+  const sinceIso = window.since.toISOString();
+  const untilIso = window.until.toISOString();
+
+  // ---------------------------------------------------------------------------
+  // Gather relevant branches (per project)
+  // ---------------------------------------------------------------------------
+  const branchCandidates: Array<{
+    project: GitlabProject;
+    branch: string;
+    via: BranchQuery["via"];
+  }> = [];
+  const listed: ListedBranch[] = [];
+
+  // Active branches: touched in the window or the week before its end (so a
+  // long digest range still scans branches that went quiet early on)
+  const cutoff = new Date(
+    Math.min(window.since.getTime(), window.until.getTime() - 7 * DAY_MS)
+  );
+
+  for (const project of projects) {
+    // Branch name → why it is scanned, in discovery order
+    const candidates = new Map<string, BranchQuery["via"]>();
+    const add = (branch: string, via: "active" | "mr") => {
+      if (!branch) return;
+      const reasons = candidates.get(branch) ?? [];
+      if (!reasons.includes(via)) reasons.push(via);
+      candidates.set(branch, reasons);
+    };
+
+    try {
+      const projectBranches = await gitlab.getAll(
+        `${projectPath(project.id)}/repository/branches`
+      );
+
+      for (const b of projectBranches) {
+        const lastCommitAt: string | undefined = b.commit?.created_at;
+        const active = Boolean(lastCommitAt && new Date(lastCommitAt) > cutoff);
+        listed.push({ project: project.name, name: b.name, lastCommitAt, active });
+        if (active) add(b.name, "active");
+      }
+    } catch (err: any) {
+      gitlab.recordFailure(`Branches of ${project.name}`, err);
+    }
+
+    // Include MR source branches updated within our window
+    try {
+      const windowMRs = await gitlab.getAll(
+        `${projectPath(project.id)}/merge_requests`,
+        { updated_after: sinceIso, updated_before: untilIso }
+      );
+      for (const mr of windowMRs) add(mr.source_branch, "mr");
+    } catch (err: any) {
+      gitlab.recordFailure(`MR branches of ${project.name}`, err);
+    }
+
+    for (const [branch, via] of candidates) {
+      branchCandidates.push({ project, branch, via });
+    }
+  }
+
+  console.log(`🌿 Branch candidates count: ${branchCandidates.length}`);
+
+  // ---------------------------------------------------------------------------
+  // Collect commits authored by the member in the time window, a few
+  // branches at a time (GITLAB_CONCURRENCY)
+  // ---------------------------------------------------------------------------
+  // One query per author alias; GitLab's `author` filter takes a single value
+  const queries = branchCandidates.flatMap((candidate) =>
+    member.authors.map((author) => ({ ...candidate, author }))
+  );
+
+  const scanned: BranchQuery[] = queries.map(({ project, branch, via, author }) => ({
+    project: project.name,
+    branch,
+    via,
+    author,
+    commits: 0,
+  }));
+
+  const results = await mapLimit(
+    queries,
+    getConfig().gitlab.concurrency,
+    async ({ project, branch, author }, index): Promise<CollectedCommit[]> => {
+      try {
+        const branchCommits = await gitlab.getAll(
+          `${projectPath(project.id)}/repository/commits`,
+          {
+            ref_name: branch,
+            since: sinceIso,
+            until: untilIso,
+            author,
+          }
+        );
+
+        scanned[index].commits = branchCommits.length;
+        return branchCommits.map((c: any) => ({
+          id: c.id,
+          title: c.title,
+          web_url: c.web_url,
+          branch,
+          project: project.name,
+          created_at: c.created_at,
+        }));
+      } catch (err: any) {
+        const status = err.response?.status;
+        scanned[index].error = status ? `${status} - ${err.message}` : err.message;
+        // A branch deleted since it was listed has nothing to report
+        if (status !== 404) {
+          gitlab.recordFailure(`Commits of ${project.name}/${branch}`, err);
+        }
+        return [];
+      }
+    }
+  );
+
+  const found = results.flat();
+  return {
+    commits: dedupeCommits(found),
+    scan: { strategy: "branches", found: found.length, branches: listed, queries: scanned },
+  };
+}
+
+/**
+ * Events strategy: list the member's push events in the window, then resolve
+ * each push to its commits (compare commit_from..commit_to, or the single
+ * pushed commit for new branches). Only commits authored by the member in
+ * tracked projects are kept, so rebases of someone else's work don't count.
+ *
+ * Like the branch strategy (GitLab's `since`/`until`), a commit counts on its
+ * committed date: one written in an earlier window and pushed in this one
+ * (a compare can reach back that far) was already reported then, so it's
+ * dropped.
+ */
+export async function collectCommitsFromEvents(
+  gitlab: GitlabClient,
+  member: TeamMember,
+  projects: GitlabProject[],
+  window: CommitWindow
+): Promise<CommitCollection> {
+  const projectsById = new Map(projects.map((p) => [p.id, p]));
+
+  // `after`/`before` are exclusive calendar dates; refine on created_at below
+  let events: any[];
+  try {
+    events = await gitlab.getAll(`/users/${member.gitlabUserId}/events`, {
+      action: "pushed",
+      after: new Date(window.since.getTime() - DAY_MS).toISOString().slice(0, 10),
+      before: new Date(window.until.getTime() + DAY_MS).toISOString().slice(0, 10),
+    });
+  } catch (err: any) {
+    // The rest of the GitLab source (MRs, reviews, CI) still runs
+    gitlab.recordFailure("Push events", err);
+    return { commits: [], scan: { strategy: "events", found: 0, pushEvents: 0 } };
+  }
+
+  const pushes = events.filter((e: any) => {
+    const at = new Date(e.created_at);
+    return (
+      at >= window.since &&
+      at < window.until &&
+      projectsById.has(String(e.project_id)) &&
+      e.push_data?.ref_type === "branch" &&
+      e.push_data?.commit_to
+    );
+  });
+
+  console.log(`📬 Push events in window: ${pushes.length}`);
+
+  const commits: CollectedCommit[] = [];
+
+  for (const event of pushes) {
+    const project = projectsById.get(String(event.project_id))!;
+    const { commit_from, commit_to, commit_count, ref } = event.push_data;
+
+    try {
+      let pushed: any[];
+      if (commit_from) {
+        const compare = await gitlab.get(
+          `${projectPath(project.id)}/repository/compare`,
+          { from: commit_from, to: commit_to }
+        );
+        pushed = compare.commits || [];
+      } else if (commit_count > 1) {
+        // New branch: there is no "from", so walk the branch tip within the window
+        pushed = await gitlab.getAll(
+          `${projectPath(project.id)}/repository/commits`,
+          {
+            ref_name: commit_to,
+            since: window.since.toISOString(),
+            until: window.until.toISOString(),
+          }
+        );
+      } else {
+        pushed = [
+          await gitlab.get(
+            `${projectPath(project.id)}/repository/commits/${commit_to}`
+          ),
+        ];
+      }
+
+      commits.push(
+        ...pushed
+          .filter((c) => isAuthoredBy(member, c) && inWindow(c, window))
+          .map((c) => ({
+            id: c.id,
+            title: c.title,
+            web_url:
+              c.web_url ||
+              (project.webUrl ? `${project.webUrl}/-/commit/${c.id}` : ""),
+            branch: ref,
+            project: project.name,
+            created_at: c.created_at,
+          }))
+      );
+    } catch (err: any) {
+      gitlab.recordFailure(`Push ${commit_to} on ${project.name}/${ref}`, err);
+    }
+  }
+
+  return {
+    commits: dedupeCommits(commits),
+    scan: { strategy: "events", found: commits.length, pushEvents: pushes.length },
+  };
+}
+
+/** The member's commits in the window, and how they were found */
+export function collectCommits(
+  strategy: CommitStrategy,
+  gitlab: GitlabClient,
+  member: TeamMember,
+  projects: GitlabProject[],
+  window: CommitWindow
+): Promise<CommitCollection> {
+  return strategy === "events"
+    ? collectCommitsFromEvents(gitlab, member, projects, window)
+    : collectCommitsFromBranches(gitlab, member, projects, window);
+}
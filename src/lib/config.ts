@@ -0,0 +1,228 @@
+import { SUMMARIZER_NAMES, SummarizerName } from "./summarizers/types";
+import { splitList } from "./util";
+
+/**
+ * Core settings (GitLab, Slack, the model, the other sources' credentials,
+ * the review-wait threshold), read from the environment and validated in one
+ * place. Feature settings (roster, schedule, which sources run, redaction,
+ * ...) stay with their modules, which parse them with defaults.
+ *
+ * `getConfig()` throws one error listing every problem, so a missing key
+ * shows up at startup (instrumentation.ts) and on /health rather than as a
+ * vague failure mid-run.
+ */
+export type AppConfig = {
+  gitlab: {
+    api: string;
+    token: string;
+    /** Single-user routes only (roster members carry their own) */
+    userId?: string;
+    email?: string;
+    username?: string;
+    maxPages: number;
+    /** Parallel requests in the per-branch commit scan */
+    concurrency: number;
+  };
+  slack: {
+    botToken: string;
+    signingSecret?: string;
+    userId?: string;
+    standupChannel?: string;
+    standupThread: boolean;
+  };
+  /** Default summarizer (runs can still pick another) */
+  summarizer: SummarizerName;
+  openai: { apiKey?: string; baseUrl?: string; model?: string };
+  ollama: { baseUrl: string; model: string };
+  /** Optional sources (see sources/): each is off without its credentials */
+  github: { api: string; token?: string; repos: string[]; orgs: string[] };
+  jira: {
+    baseUrl?: string;
+    email?: string;
+    apiToken?: string;
+    projects: string[];
+    maxPages: number;
+  };
+  linear: { apiKey?: string };
+  /** Ready, unapproved MRs become a blocker after `reviewWaitDays` (see openwork.ts) */
+  openWork: { reviewWaitDays: number };
+};
+
+const DEFAULT_GITLAB_API = "https://gitlab.com/api/v4";
+const DEFAULT_OLLAMA_URL = "http://localhost:11434";
+const DEFAULT_GITHUB_API = "https://api.github.com";
+
+type Env = Record<string, string | undefined>;
+
+function value(env: Env, name: string) {
+  const raw = env[name]?.trim();
+  return raw ? raw : undefined;
+}
+
+/**
+ * Parse and validate `env`; never throws. Problems name the variable and
+ * what is wrong with it, never its value.
+ */
+export function readConfig(env: Env = process.env) {
+  const problems: string[] = [];
+  const get = (name: string) => value(env, name);
+  const required = (name: string, hint: string) => {
+    const v = get(name);
+    if (!v) problems.push(`${name} is not set (${hint})`);
+    return v ?? "";
+  };
+  const url = (name: string, fallback?: string) => {
+    const v = get(name) ?? fallback;
+    if (v && !/^https?:\/\/[^\s/]+/i.test(v)) {
+      problems.push(`${name} must be an http(s) URL`);
+    }
+    return v?.replace(/\/+$/, "");
+  };
+
+  const gitlabApi = url("GITLAB_API", DEFAULT_GITLAB_API)!;
+  const gitlabToken = required(
+    "GITLAB_TOKEN",
+    "a personal access token with the read_api scope"
+  );
+
+  // Roster deployments identify members per entry, not through these
+  const hasRoster = Boolean(get("EOD_ROSTER") || get("EOD_ROSTER_PATH"));
+  const userId = hasRoster
+    ? get("GITLAB_USER_ID")
+    : required("GITLAB_USER_ID", "your numeric GitLab user id");
+  if (userId && !/^\d+$/.test(userId)) {
+    problems.push("GITLAB_USER_ID must be a numeric GitLab user id");
+  }
+
+  const count = (name: string, fallback: number) => {
+    const raw = get(name);
+    const n = raw ? Number(raw) : fallback;
+    if (!Number.isInteger(n) || n < 1) {
+      problems.push(`${name} must be a positive whole number`);
+    }
+    return n;
+  };
+  const maxPages = count("GITLAB_MAX_PAGES", 20);
+  const concurrency = count("GITLAB_CONCURRENCY", 4);
+
+  const botToken = required("SLACK_BOT_TOKEN", "the bot token, xoxb-…");
+  if (botToken && !botToken.startsWith("xox")) {
+    problems.push("SLACK_BOT_TOKEN does not look like a Slack token (expected xoxb-…)");
+  }
+  const slackUserId = hasRoster
+    ? get("SLACK_USER_ID")
+    : required("SLACK_USER_ID", "your Slack member id, U…");
+
+  const thread = get("SLACK_STANDUP_THREAD")?.toLowerCase();
+  if (thread && thread !== "true" && thread !== "false") {
+    problems.push('SLACK_STANDUP_THREAD must be "true" or "false"');
+  }
+
+  const summarizer = (get("EOD_SUMMARIZER") ?? "openai").toLowerCase() as SummarizerName;
+  if (!SUMMARIZER_NAMES.includes(summarizer)) {
+    problems.push(`EOD_SUMMARIZER must be one of ${SUMMARIZER_NAMES.join(", ")}`);
+  }
+
+  // Only the default summarizer is required to work; a per-run pick of an
+  // unconfigured one falls back to the template
+  const apiKey = get("AI_API_KEY");
+  const model = get("AI_MODEL_NAME");
+  if (summarizer === "openai") {
+    if (!apiKey) {
+      problems.push(
+        get("I_API_KEY")
+          ? "AI_API_KEY is not set (found I_API_KEY, a typo from older .env.example files; rename it)"
+          : "AI_API_KEY is not set (key for the OpenAI-compatible endpoint, or set EOD_SUMMARIZER=template)"
+      );
+    }
+    if (!model) required("AI_MODEL_NAME", "e.g. gemini-2.5-flash or gpt-4o-mini");
+  }
+
+  const githubRepos = splitList(get("GITHUB_REPOS"));
+  if (githubRepos.some((r) => !/^[\w.-]+\/[\w.-]+$/.test(r))) {
+    problems.push("GITHUB_REPOS must list repositories as owner/repo");
+  }
+
+  // Jira needs all three or none (a partial set would silently disable it)
+  const jiraKeys = ["JIRA_BASE_URL", "JIRA_EMAIL", "JIRA_API_TOKEN"];
+  const missingJira = jiraKeys.filter((name) => !get(name));
+  if (missingJira.length && missingJira.length < jiraKeys.length) {
+    problems.push(
+      `Jira is partly configured: set ${missingJira.join(" and ")} too, or none of ${jiraKeys.join(", ")}`
+    );
+  }
+
+  const config: AppConfig = {
+    gitlab: {
+      api: gitlabApi,
+      token: gitlabToken,
+      userId,
+      email: get("GITLAB_EMAIL"),
+      username: get("GITLAB_USERNAME"),
+      maxPages,
+      concurrency,
+    },
+    slack: {
+      botToken,
+      signingSecret: get("SLACK_SIGNING_SECRET"),
+      userId: slackUserId,
+      standupChannel: get("SLACK_STANDUP_CHANNEL"),
+      standupThread: thread === "true",
+    },
+    summarizer,
+    openai: { apiKey, baseUrl: url("AI_BASE_URL"), model },
+    ollama: {
+      baseUrl: url("OLLAMA_BASE_URL", DEFAULT_OLLAMA_URL)!,
+      model: get("OLLAMA_MODEL") ?? "llama3.1",
+    },
+    github: {
+      api: url("GITHUB_API_URL", DEFAULT_GITHUB_API)!,
+      token: get("GITHUB_TOKEN"),
+      repos: githubRepos,
+      orgs: splitList(get("GITHUB_ORGS")),
+    },
+    jira: {
+      baseUrl: url("JIRA_BASE_URL"),
+      email: get("JIRA_EMAIL"),
+      apiToken: get("JIRA_API_TOKEN"),
+      projects: splitList(get("JIRA_PROJECTS")),
+      maxPages: count("JIRA_MAX_PAGES", 10),
+    },
+    linear: { apiKey: get("LINEAR_API_KEY") },
+    openWork: { reviewWaitDays: count("EOD_REVIEW_WAIT_DAYS", 2) },
+  };
+  return { config, problems };
+}
+
+let cached: ReturnType<typeof readConfig> | undefined;
+
+/** Problems with the current environment (empty when valid) */
+export function configProblems() {
+  cached ??= readConfig();
+  return cached.problems;
+}
+
+/** The validated config; throws listing every problem */
+export function getConfig(): AppConfig {
+  cached ??= readConfig();
+  if (cached.problems.length) {
+    throw new Error(
+      `Invalid configuration:\n${cached.problems.map((p) => `- ${p}`).join("\n")}`
+    );
+  }
+  return cached.config;
+}
+
+/** Configured secret values, for scrubbing them out of error messages */
+export function configSecrets() {
+  const { config } = (cached ??= readConfig());
+  return [
+    config.gitlab.token,
+    config.slack.botToken,
+    config.slack.signingSecret,
+    config.openai.apiKey,
+    config.github.token,
+    config.jira.apiToken,
+    config.linear.apiKey,
+  ].filter((s): s is string => Boolean(s));
+}
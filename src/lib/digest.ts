@@ -0,0 +1,259 @@
+import { EodClients, withClients } from "./clients";
+import { collectActivity } from "./collect";
+import {
+  buildActivityText,
+  EodActivity,
+  EodReport,
+  recordRun,
+  RunOptions,
+} from "./eod";
+import { redactForModel } from "./redact";
+import { TeamMember } from "./roster";
+import { DeliveryOptions } from "./slack";
+import { ActivityItem, groupActivity, itemTime } from "./sources";
+import { summarize } from "./summarizers";
+import {
+  computeRangeWindow,
+  localDay,
+  periodRange,
+  RangeWindow,
+  ReportPeriod,
+} from "./window";
+
+/**
+ * Above this many characters of raw activity the digest is built in two
+ * passes (per-day summaries, then a combined digest) to stay inside the
+ * model's context.
+ */
+const DIGEST_MAX_PROMPT_CHARS =
+  Number(process.env.EOD_DIGEST_MAX_PROMPT_CHARS) || 12000;
+
+/** A weekly / sprint / custom-range report request */
+export type DigestRequest = { period?: ReportPeriod; from?: string; to?: string };
+
+/**
+ * Build a DigestRequest from query / body values; undefined when none of
+ * period / from / to was given (i.e. a regular daily EOD)
+ */
+export function digestRequestFrom(values: {
+  period?: unknown;
+  from?: unknown;
+  to?: unknown;
+}): DigestRequest | undefined {
+  const { period, from, to } = values;
+  if (!period && !from && !to) return undefined;
+
+  if (period && period !== "week" && period !== "sprint") {
+    throw new Error(`Invalid period "${period}": expected week or sprint`);
+  }
+  if (!period && !from) {
+    throw new Error("A range needs `from` (and optionally `to`)");
+  }
+  return {
+    period: (period as ReportPeriod) || undefined,
+    from: from ? String(from) : undefined,
+    to: to ? String(to) : undefined,
+  };
+}
+
+export function digestWindow(
+  member: TeamMember,
+  request: DigestRequest,
+  now = new Date()
+): RangeWindow {
+  // Explicit from/to win over the period's own bounds
+  const period = request.period
+    ? periodRange(request.period, { timezone: member.timezone, now })
+    : undefined;
+
+  return computeRangeWindow({
+    timezone: member.timezone,
+    workingHours: member.workingHours,
+    from: request.from ?? period!.from,
+    to: request.to ?? period?.to ?? localDay(now, member.timezone),
+    now,
+  });
+}
+
+function inWindow(value: string | null | undefined, window: RangeWindow) {
+  if (!value) return false;
+  const at = new Date(value);
+  return at >= window.since && at < window.until;
+}
+
+/**
+ * Headline numbers for the digest
+ */
+export function digestTotals(activity: EodActivity, window: RangeWindow) {
+  const { commits, mrsCreated, mrsReviewed, issues } = groupActivity(
+    activity.items
+  );
+  return {
+    commits: commits.length,
+    mrsOpened: mrsCreated.filter((mr) => inWindow(mr.created_at, window)).length,
+    mrsMerged: mrsCreated.filter((mr) => inWindow(mr.merged_at, window)).length,
+    reviews: mrsReviewed.length,
+    issues: issues.length,
+  };
+}
+
+/**
+ * Split activity into per-day buckets (member's timezone) for the map step
+ */
+function activityByDay(activity: EodActivity, timezone: string) {
+  const days = new Map<string, ActivityItem[]>();
+  for (const item of activity.items) {
+    const at = itemTime(item);
+    const day = at ? localDay(new Date(at), timezone) : "undated";
+    if (!days.has(day)) days.set(day, []);
+    days.get(day)!.push(item);
+  }
+
+  return Array.from(days.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([day, items]): [string, EodActivity] => [day, { items }]);
+}
+
+/**
+ * Map step: compress each day to a few bullets. A failed day falls back to
+ * the template's per-project bullets so the combine step still sees it.
+ */
+async function summarizeDays(
+  activity: EodActivity,
+  timezone: string,
+  summarizer?: string,
+  clients: Partial<EodClients> = {}
+) {
+  const summaries: string[] = [];
+
+  for (const [day, dayActivity] of activityByDay(activity, timezone)) {
+    const raw = buildActivityText(dayActivity);
+    const { summary } = await summarize(
+      {
+        system:
+          "You are a concise assistant compressing a developer's daily GitLab activity.",
+        prompt: `Summarize this GitLab activity from ${day} in 2–5 short bullets. Keep project names, feature names and MR titles; drop URLs.\n\n${raw}`,
+        heading: `${day}:`,
+        layout: "themes",
+        activity: dayActivity,
+      },
+      summarizer,
+      withClients(clients).summarizer
+    );
+    summaries.push(summary.startsWith(`${day}:`) ? summary : `${day}:\n${summary}`);
+  }
+
+  return summaries.join("\n\n");
+}
+
+function digestTitle(request: DigestRequest) {
+  if (request.period === "week") return "WEEKLY DIGEST";
+  if (request.period === "sprint") return "SPRINT DIGEST";
+  return "ACTIVITY DIGEST";
+}
+
+/**
+ * Collect a range's activity and summarize it into a themed digest
+ */
+export async function generateDigest(
+  member: TeamMember,
+  request: DigestRequest,
+  summarizerName?: string,
+  clients: Partial<EodClients> = {}
+): Promise<EodReport> {
+  const window = digestWindow(member, request);
+  const title = digestTitle(request);
+
+  console.log(
+    `🗂️ Generating ${title.toLowerCase()} for ${member.id}: ${window.labelSince} → ${window.labelUntil} (${window.timezone})`
+  );
+
+  const collected = await collectActivity(member, window, clients);
+  // The model only ever sees the redacted copy (see redact.ts)
+  const forModel = { items: redactForModel({ items: collected.items }).items };
+  const activity = buildActivityText(forModel);
+  const totals = digestTotals(collected, window);
+
+  // Long ranges: map (per day) then reduce (digest) instead of one huge prompt
+  const perDay = activity.length > DIGEST_MAX_PROMPT_CHARS;
+  const material = perDay
+    ? await summarizeDays(forModel, window.timezone, summarizerName, clients)
+    : activity;
+
+  const aiPrompt = `Write a higher-level ${title.toLowerCase()} for a Slack message from the developer's GitLab activity below.
+  Range: ${window.from} → ${window.to} (${window.labelSince} → ${window.labelUntil})
+  Totals: ${totals.commits} commits, ${totals.mrsOpened} MRs opened, ${totals.mrsMerged} MRs merged, ${totals.reviews} MRs reviewed${
+    totals.issues ? `, ${totals.issues} issues updated` : ""
+  }
+  ${perDay ? "Daily summaries" : "Raw activity"}:
+  ${material}
+
+  Instructions:
+  1. Group work by theme (feature area, project or initiative), NOT by day.
+  2. 3–7 themes, each with 1–3 sub-bullets describing outcomes, not individual commits.
+  3. Call out what was merged/shipped and notable reviews.
+  4. Professional and specific; no filler.
+
+  IMPORTANT — Follow this exact output format:
+
+*${title}* (${window.from} → ${window.to})
+- Theme
+  - Outcome or detail
+- Another theme
+  - Outcome or detail
+
+  If there's no activity, respond exactly with:
+  *${title}*
+  No activity on GitLab in this period.`;
+
+  const { summary, summarizer, fallback } = await summarize(
+    {
+      system: "You are a concise assistant writing weekly and sprint engineering digests.",
+      prompt: aiPrompt,
+      heading: `*${title}* (${window.from} → ${window.to})`,
+      layout: "themes",
+      activity: collected,
+    },
+    summarizerName,
+    withClients(clients).summarizer
+  );
+
+  return {
+    ...collected,
+    member,
+    summary,
+    aiFailed: fallback,
+    summarizer,
+    activity,
+    day: window.day,
+    labelSince: window.labelSince,
+    labelUntil: window.labelUntil,
+    title,
+    counts: [
+      `📝 ${totals.commits} commits`,
+      `🆕 ${totals.mrsOpened} MRs opened`,
+      `✅ ${totals.mrsMerged} MRs merged`,
+      `👀 ${totals.reviews} reviews`,
+      ...(totals.issues ? [`🎫 ${totals.issues} issues`] : []),
+    ],
+  };
+}
+
+/**
+ * Generate a digest and deliver it like a daily EOD (recorded per range, so
+ * repeats are skipped unless forced)
+ */
+export async function handleDigestRequest(
+  member: TeamMember,
+  request: DigestRequest,
+  delivery: DeliveryOptions = {},
+  options: RunOptions = {}
+) {
+  const window = digestWindow(member, request);
+  return recordRun(
+    { member, kind: "digest", key: `${window.from}..${window.to}`, window },
+    delivery,
+    options,
+    () => generateDigest(member, request, options.summarizer, options.clients)
+  );
+}
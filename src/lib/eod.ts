@@ -0,0 +1,652 @@
+import { buildEodBlocks } from "./blocks";
+import { EodClients, withClients } from "./clients";
+import { CollectionDiagnostics, collectEod, EodCollection } from "./collect";
+import { getConfig } from "./config";
+import { TeamMember } from "./roster";
+import { Delivery, deliverMessage, DeliveryOptions } from "./slack";
+import { groupByTransition } from "./lifecycle";
+import { buildOpenWorkText, OpenWork } from "./openwork";
+import { summarizePipelines } from "./pipelines";
+import {
+  ActivityItem,
+  CollectedActivity,
+  groupActivity,
+  incompleteNotice,
+} from "./sources";
+import { loadPromptTemplate, PromptTemplate, renderPrompt } from "./prompts";
+import { redactForModel } from "./redact";
+import { EodRun, EodStore } from "./store";
+import {
+  activityRefs,
+  buildRefIndex,
+  RejectedBullet,
+  STRUCTURED_OUTPUT_INSTRUCTIONS,
+  StructuredSummary,
+} from "./structured";
+import { summarize, SummarizerName } from "./summarizers";
+import { computeWindow, EodWindow } from "./window";
+
+/**
+ * The member's report window for `dateParam` (see window.ts for the rules)
+ */
+export function eodWindow(member: TeamMember, dateParam?: string) {
+  return computeWindow({
+    timezone: member.timezone,
+    workingHours: member.workingHours,
+    date: dateParam,
+  });
+}
+
+/** Everything collected for one window (normalized items from every source) */
+export type EodActivity = CollectedActivity;
+
+export type EodReport = EodActivity & {
+  member: TeamMember;
+  summary: string;
+  /** True when the model call failed and `summary` is the template fallback */
+  aiFailed: boolean;
+  /** What wrote `summary` (see summarizers/) */
+  summarizer: SummarizerName;
+  /** Daily EODs: the prompt template used (see prompts.ts) */
+  style?: string;
+  /** Daily EODs written by a model: the validated JSON the summary came from */
+  structured?: StructuredSummary;
+  /** Bullets dropped for citing refs outside the activity (see structured.ts) */
+  rejected?: RejectedBullet[];
+  activity: string;
+  day: string;
+  labelSince: string;
+  labelUntil: string;
+  /** Header / count overrides for non-daily reports (see digest.ts) */
+  title?: string;
+  counts?: string[];
+  /** Daily EODs only: open MRs / issues / blockers and the developer's note */
+  openWork?: OpenWork;
+  note?: string;
+  /** Daily EODs: how the activity was collected (see collect.ts) */
+  diagnostics?: CollectionDiagnostics;
+};
+
+/** `branches: false` leaves branch / ref names out (e.g. manager styles) */
+export type ActivityTextOptions = { branches?: boolean };
+
+/**
+ * Step 5: the plain-text activity dump, one named section at a time (prompt
+ * templates can use them individually). Issue, comment and CI sections are
+ * empty when there is nothing for them.
+ */
+export function activityTextSections(
+  { items }: EodActivity,
+  { branches = true }: ActivityTextOptions = {}
+) {
+  const {
+    commits,
+    mrsCreated,
+    mrsReviewed,
+    issues,
+    comments,
+    pipelines,
+    deployments,
+  } = groupActivity(items);
+  // Every line starts with the item's ref (C1, MR2, ...) for citations
+  const refs = activityRefs(items);
+
+  const commitLines = commits.map(
+    (c) =>
+      `• ${refs.get(c)} [${c.project}] ${c.title}${branches && c.branch ? ` (${c.branch})` : ""} → ${c.web_url}`
+  );
+  const mrLine = (mr: ActivityItem) =>
+    `• ${refs.get(mr)} [${mr.project}] ${mr.title}\n  What happened: ${[
+      ...(mr.transitions ?? ["updated"]),
+      ...(mr.detail ? [mr.detail] : []),
+    ].join(", ")}\n  Description: ${
+      mr.description || "No description provided"
+    }\n  URL: ${mr.web_url}`;
+  const reviewedMRs = mrsReviewed.map((mr) => {
+    const lines = [`• ${refs.get(mr)} [${mr.project}] ${mr.title} (${mr.web_url})`];
+    if (mr.detail) lines.push(`  Review: ${mr.detail}`);
+    for (const quote of mr.review?.excerpts ?? []) lines.push(`  > ${quote}`);
+    return lines.join("\n");
+  });
+  const list = (lines: string[]) => (lines.length ? lines.join("\n") : "None");
+
+  // Authored MRs grouped by what happened to them in the window
+  const mrGroups = groupByTransition(mrsCreated);
+  const sections = {
+    commits: `Commits (${commitLines.length}):\n${list(commitLines)}`,
+    mergeRequests: mrGroups.length
+      ? mrGroups
+          .map((g) => `${g.heading}:\n${g.mrs.map(mrLine).join("\n")}`)
+          .join("\n\n")
+      : "Authored MRs:\nNone",
+    reviews: `MRs Reviewed:\n${list(reviewedMRs)}`,
+    issues: "",
+    comments: "",
+    ci: "",
+  };
+  if (issues.length) {
+    const lines = issues.map(
+      (i) =>
+        `• ${refs.get(i)} [${i.project}] ${i.title}${i.detail ? ` (${i.detail})` : ""} → ${i.web_url}`
+    );
+    sections.issues = `Issues Updated:\n${lines.join("\n")}`;
+  }
+  if (comments.length) {
+    const lines = comments.map(
+      (c) => `• ${refs.get(c)} [${c.project}] ${c.title}: "${c.detail || ""}" → ${c.web_url}`
+    );
+    sections.comments = `Comments:\n${lines.join("\n")}`;
+  }
+
+  // CI: one compact line each, e.g. "Pipelines: 5 passed, 1 failed (url)"
+  if (pipelines.length || deployments.length) {
+    const ci: string[] = [];
+    if (pipelines.length) {
+      const { text, failed } = summarizePipelines(pipelines);
+      const links = failed.map((p) => `[${p.project}] ${p.web_url}`).join(", ");
+      const cited = [pipelines[0], pipelines[pipelines.length - 1]]
+        .map((p) => refs.get(p))
+        .filter((ref, i, all) => all.indexOf(ref) === i)
+        .join("–");
+      ci.push(`Pipelines ${cited}: ${text}${links ? ` (failed: ${links})` : ""}`);
+    }
+    for (const d of deployments) {
+      ci.push(
+        `Deployment ${refs.get(d)}: [${d.project}]${branches ? ` ${d.branch}` : ""} deployed to ${d.detail}`
+      );
+    }
+    sections.ci = `CI / Deployments:\n${ci.join("\n")}`;
+  }
+
+  return sections;
+}
+
+/**
+ * Step 5: plain-text activity dump fed to the model
+ */
+export function buildActivityText(
+  activity: EodActivity,
+  options: ActivityTextOptions = {}
+) {
+  const sections = Object.values(activityTextSections(activity, options));
+  return `\n${sections.filter(Boolean).join("\n\n")}\n`;
+}
+
+/** Optional inputs for a daily EOD besides the date */
+export type EodInputs = {
+  /** Free-text note from the developer (plans, blockers, context) */
+  note?: string;
+  /** openai / ollama / template; default EOD_SUMMARIZER */
+  summarizer?: string;
+  /** Prompt template name (see prompts.ts); default EOD_STYLE / "default" */
+  style?: string;
+  /** Replacement GitLab / model / Slack / store clients (see clients.ts) */
+  clients?: Partial<EodClients>;
+};
+
+/**
+ * Step 5 for a daily EOD: the model's redacted copy of a collection rendered
+ * with the style's prompt. Shared with /debug, which shows the same prompt
+ * and redaction report a run would use.
+ */
+export function buildEodPrompt(
+  member: TeamMember,
+  window: EodWindow,
+  collection: EodCollection,
+  template: PromptTemplate,
+  note?: string
+) {
+  const { items, openWork } = collection;
+
+  // The model only ever sees the redacted copy (see redact.ts)
+  const forModel = redactForModel({ items, openWork, note });
+  const textOptions = { branches: template.branches };
+  const sections = activityTextSections(forModel, textOptions);
+  const activity = buildActivityText(forModel, textOptions);
+  const heading = `*EOD UPDATE* (${window.labelDay})`;
+
+  const grouped = groupActivity(items);
+  const rendered = renderPrompt(template, {
+    heading,
+    user: { id: member.id, name: member.name ?? member.id },
+    window: {
+      since: window.labelSince,
+      until: window.labelUntil,
+      day: window.day,
+      label: window.labelDay,
+      timezone: window.timezone,
+    },
+    activity,
+    sections: {
+      ...sections,
+      issues: sections.issues || "None",
+      comments: sections.comments || "None",
+      ci: sections.ci || "None",
+    },
+    counts: {
+      commits: grouped.commits.length,
+      mergeRequests: grouped.mrsCreated.length,
+      reviews: grouped.mrsReviewed.length,
+      issues: grouped.issues.length,
+      comments: grouped.comments.length,
+      pipelines: grouped.pipelines.length,
+      deployments: grouped.deployments.length,
+    },
+    openWork: forModel.openWork ? buildOpenWorkText(forModel.openWork) : "Not available",
+    note: forModel.note ?? "None",
+  });
+  // The style sets tone and content; the JSON shape is the same for all
+  const prompt = `${rendered}\n\n${STRUCTURED_OUTPUT_INSTRUCTIONS}`;
+
+  return { activity, heading, prompt, redaction: forModel.report };
+}
+
+/**
+ * Steps 0–5 for a daily EOD: collect activity and open work, and render the
+ * style's prompt. Shared by generateEOD and the prompt preview.
+ */
+async function prepareEOD(
+  member: TeamMember,
+  dateParam: string | undefined,
+  inputs: EodInputs
+) {
+  // Resolve the style first so a typo fails before any API calls
+  const template = loadPromptTemplate(inputs.style);
+  const window = eodWindow(member, dateParam);
+  const sinceIso = window.since.toISOString();
+  const untilIso = window.until.toISOString();
+  const note = inputs.note?.trim() || undefined;
+
+  // Format for display (member's timezone for human readability)
+  const { labelSince, labelUntil } = window;
+
+  console.log(
+    `📅 Generating EOD for ${member.id}, window: ${labelSince} → ${labelUntil} (${window.timezone})`
+  );
+  console.log(
+    `🔁 Using activity window: since=${sinceIso} until=${untilIso} (UTC)`
+  );
+
+  const collection = await collectEod(member, window, inputs.clients);
+  const { openWork, ...collected } = collection;
+  const { activity, heading, prompt, redaction } = buildEodPrompt(
+    member,
+    window,
+    collection,
+    template,
+    note
+  );
+
+  return {
+    window,
+    collected,
+    activity,
+    openWork,
+    note,
+    heading,
+    template,
+    prompt,
+    redaction,
+  };
+}
+
+/**
+ * The rendered prompt for a daily EOD, without calling the model: what
+ * `style` would send, with the real activity of the window
+ */
+export async function previewEODPrompt(
+  member: TeamMember,
+  dateParam?: string,
+  inputs: EodInputs = {}
+) {
+  const { window, template, prompt, redaction } = await prepareEOD(
+    member,
+    dateParam,
+    inputs
+  );
+  return {
+    user: member.id,
+    day: window.day,
+    window: { since: window.labelSince, until: window.labelUntil },
+    style: template.style,
+    branches: template.branches,
+    system: template.system,
+    prompt,
+    redaction,
+  };
+}
+
+/**
+ * Collect activity and summarize it, without posting anywhere
+ *
+ * Behavior (in the member's timezone, see window.ts):
+ * - If dateParam provided => that calendar / working day, back to the end of
+ *   the previous working day (so Mondays include the weekend)
+ * - Else => today so far with working hours, or a rolling 24h without
+ *
+ * The summary has Done / Next / Blockers sections: Done from the window's
+ * activity, Next from open work and the note, Blockers only from concrete
+ * signals (see openwork.ts) or the note. Wording comes from the prompt
+ * template (`inputs.style`).
+ */
+export async function generateEOD(
+  member: TeamMember,
+  dateParam?: string,
+  inputs: EodInputs = {}
+): Promise<EodReport> {
+  const { window, collected, activity, openWork, note, heading, template, prompt } =
+    await prepareEOD(member, dateParam, inputs);
+
+  // ---------------------------------------------------------------------------
+  // 6. Summarize (model per EOD_SUMMARIZER / the run, template as fallback)
+  // ---------------------------------------------------------------------------
+  const { summary, summarizer, fallback, structured, rejected } = await summarize(
+    {
+      system: template.system,
+      prompt,
+      heading,
+      layout: "daily",
+      activity: collected,
+      openWork,
+      note,
+      refs: buildRefIndex(collected.items, openWork),
+    },
+    inputs.summarizer,
+    withClients(inputs.clients).summarizer
+  );
+  console.log(`generated eod summary (${summarizer}, style ${template.style})`);
+
+  return {
+    ...collected,
+    member,
+    summary,
+    aiFailed: fallback,
+    summarizer,
+    style: template.style,
+    ...(structured && { structured }),
+    ...(rejected?.length && { rejected }),
+    activity,
+    day: window.day,
+    labelSince: window.labelSince,
+    labelUntil: window.labelUntil,
+    ...(openWork && { openWork }),
+    ...(note && { note }),
+  };
+}
+
+/**
+ * Core handler logic: generate the EOD for a single team member and deliver
+ * it (their DM by default; see DeliveryOptions for channels/threads/updates).
+ * Runs are recorded, so a repeat for the same day and targets is a no-op
+ * unless `force` is set (which regenerates and updates the earlier posts).
+ */
+export async function handleEODRequest(
+  member: TeamMember,
+  dateParam?: string,
+  delivery: DeliveryOptions = {},
+  options: RunOptions = {}
+) {
+  const window = eodWindow(member, dateParam);
+  return recordRun(
+    { member, kind: "daily", key: window.day, window },
+    delivery,
+    options,
+    () =>
+      generateEOD(member, dateParam, {
+        note: options.note,
+        summarizer: options.summarizer,
+        style: options.style,
+        clients: options.clients,
+      })
+  );
+}
+
+/**
+ * Post a summary the member reviewed in the /eod preview (edited or not) to
+ * the standup channel. It goes through the run history like any other run:
+ * the post gets the usual blocks, posting again updates the same message,
+ * and a scheduled run to the same channel finds the day already sent.
+ * The activity is collected again for the reference links; the reviewed
+ * text replaces the summary.
+ */
+export async function postReviewedEOD(
+  member: TeamMember,
+  dateParam: string | undefined,
+  summary: string,
+  options: RunOptions = {}
+) {
+  const { standupChannel, standupThread } = getConfig().slack;
+  if (!standupChannel) {
+    throw new Error("SLACK_STANDUP_CHANNEL is not configured");
+  }
+  const window = eodWindow(member, dateParam);
+  return recordRun(
+    { member, kind: "daily", key: window.day, window },
+    { channels: [standupChannel], thread: standupThread },
+    { ...options, force: true },
+    async () => {
+      const report = await generateEOD(member, dateParam, {
+        note: options.note,
+        summarizer: "template",
+        clients: options.clients,
+      });
+      return { ...report, summary, structured: undefined, rejected: undefined };
+    }
+  );
+}
+
+/**
+ * `force` re-runs a recorded report; `note` and `style` feed daily EODs and
+ * `summarizer` picks the summarizer (see EodInputs); `maxAttempts` stops
+ * retrying a failing run after that many tries; `clients` replaces the
+ * services the run talks to (see clients.ts)
+ */
+export type RunOptions = {
+  force?: boolean;
+  note?: string;
+  summarizer?: string;
+  style?: string;
+  maxAttempts?: number;
+  clients?: Partial<EodClients>;
+};
+
+/**
+ * A claim on a run held this long is assumed to belong to a crashed run and
+ * may be taken over without `force`
+ */
+const PENDING_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Idempotency key: member + report kind + day/range + delivery targets, so
+ * the same EOD posted to a DM and to #standup are tracked separately
+ */
+function runId(
+  member: TeamMember,
+  kind: EodRun["kind"],
+  key: string,
+  delivery: DeliveryOptions
+) {
+  const targets = delivery.channels?.length
+    ? [...delivery.channels].sort().join(",")
+    : "dm";
+  return `${member.id}:${kind}:${key}:${targets}${delivery.thread ? ":thread" : ""}`;
+}
+
+type RecordedRun = {
+  member: TeamMember;
+  kind: EodRun["kind"];
+  /** Day (daily) or "from..to" (digest) the report covers */
+  key: string;
+  window: { since: Date; until: Date; day: string };
+};
+
+/**
+ * Generate + deliver through the history store:
+ * - in flight elsewhere (claimed by another process or instance) => skipped,
+ *   even when forced, so the same report is never posted twice at once
+ * - already sent and not forced => return the stored result
+ * - failed `maxAttempts` times and not forced => give up (skipped)
+ * - forced re-run => regenerate and `chat.update` the stored posts
+ * - otherwise (new, or a previous attempt failed) => generate and post
+ */
+export async function recordRun(
+  run: RecordedRun,
+  delivery: DeliveryOptions,
+  options: RunOptions,
+  generate: () => Promise<EodReport>
+) {
+  const store = withClients(options.clients).store();
+  const id = runId(run.member, run.kind, run.key, delivery);
+
+  if (!(await store.claim(id, PENDING_TIMEOUT_MS))) {
+    console.log(`⏭️ ${id} is already running; skipping`);
+    return {
+      ok: true,
+      user: run.member.id,
+      skipped: true,
+      message: `EOD for ${run.key} is already being generated; try again shortly`,
+      runId: id,
+      deliveries: [] as Delivery[],
+    };
+  }
+  try {
+    return await runClaimed(run, id, store, delivery, options, generate);
+  } finally {
+    await store.release(id);
+  }
+}
+
+async function runClaimed(
+  run: RecordedRun,
+  id: string,
+  store: EodStore,
+  delivery: DeliveryOptions,
+  options: RunOptions,
+  generate: () => Promise<EodReport>
+) {
+  const { member, window } = run;
+  const previous = await store.get(id);
+
+  if (previous && !options.force && !delivery.update?.length) {
+    const exhausted =
+      previous.status === "failed" &&
+      options.maxAttempts !== undefined &&
+      previous.attempts >= options.maxAttempts;
+    if (exhausted) {
+      console.warn(`⚠️ ${id} failed ${previous.attempts} time(s); not retrying`);
+      return {
+        ok: true,
+        user: member.id,
+        skipped: true,
+        message: `EOD for ${run.key} failed ${previous.attempts} time(s) (${previous.error}); pass force=true to retry`,
+        runId: id,
+        deliveries: previous.deliveries,
+      };
+    }
+    if (previous.status === "sent") {
+      console.log(`⏭️ ${id} already ${previous.status}; skipping (force=true to redo)`);
+      return {
+        ok: true,
+        user: member.id,
+        skipped: true,
+        message: `EOD already ${previous.status} for ${run.key}; pass force=true to regenerate`,
+        runId: id,
+        deliveries: previous.deliveries,
+      };
+    }
+  }
+
+  const now = new Date().toISOString();
+  const record: EodRun = {
+    id,
+    user: member.id,
+    kind: run.kind,
+    day: window.day,
+    since: window.since.toISOString(),
+    until: window.until.toISOString(),
+    status: "pending",
+    deliveries: previous?.deliveries ?? [],
+    attempts: (previous?.attempts ?? 0) + 1,
+    createdAt: previous?.createdAt ?? now,
+    updatedAt: now,
+  };
+  await store.save(record);
+
+  try {
+    const report = await generate();
+    record.activity = report.activity;
+    record.summary = report.summary;
+
+    // Re-runs edit what the previous run posted instead of posting again
+    const update = [...(delivery.update ?? []), ...record.deliveries];
+    const result = await deliverReport(
+      report,
+      { ...delivery, ...(update.length && { update }) },
+      options.clients
+    );
+
+    await store.save({
+      ...record,
+      status: "sent",
+      error: undefined,
+      deliveries: keepThreads(result.deliveries, record.deliveries),
+      updatedAt: new Date().toISOString(),
+    });
+    return { ...result, runId: id };
+  } catch (err: any) {
+    await store.save({
+      ...record,
+      status: "failed",
+      error: err.message || String(err),
+      updatedAt: new Date().toISOString(),
+    });
+    throw err;
+  }
+}
+
+/** chat.update does not echo thread_ts; carry it over from the earlier post */
+function keepThreads(deliveries: Delivery[], previous: Delivery[]) {
+  return deliveries.map((d) => ({
+    ...d,
+    threadTs:
+      d.threadTs ??
+      previous.find((p) => p.channel === d.channel && p.ts === d.ts)?.threadTs,
+  }));
+}
+
+/**
+ * Step 7: post a generated report (daily or digest) to Slack
+ */
+export async function deliverReport(
+  report: EodReport,
+  delivery: DeliveryOptions = {},
+  clients: Partial<EodClients> = {}
+) {
+  const { member } = report;
+
+  // ---------------------------------------------------------------------------
+  // 7. Post to Slack
+  // ---------------------------------------------------------------------------
+  const slackDateLabel = `${report.labelSince} → ${report.labelUntil}`;
+  const slackMessage = `${report.summary}`;
+
+  const deliveries = await deliverMessage(
+    member.slackUserId,
+    { text: slackMessage, blocks: buildEodBlocks(report) },
+    report.day,
+    delivery,
+    withClients(clients).slack()
+  );
+
+  const incomplete = incompleteNotice(report);
+  return {
+    ok: true,
+    user: member.id,
+    message: `EOD sent for window ${slackDateLabel}${incomplete ? ` (${incomplete})` : ""}`,
+    deliveries,
+    ...(incomplete && { incomplete }),
+    ...(report.pagination && { pagination: report.pagination }),
+    ...(report.sourceErrors && { sourceErrors: report.sourceErrors }),
+    ...(report.failures && { failures: report.failures }),
+  };
+}
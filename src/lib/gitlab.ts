@@ -0,0 +1,217 @@
+import { getConfig } from "./config";
+import { request } from "./http";
+import { splitList } from "./util";
+
+export type TruncatedCall = { path: string; pages: number };
+
+/** A call that failed for good (after retries) while the run carried on */
+export type FailedCall = { call: string; error: string };
+
+/**
+ * One GET against the API (absolute URL). Errors must look like axios ones
+ * (`err.response.status`) since callers branch on 404s.
+ */
+export type GitlabTransport = (
+  url: string,
+  params: Record<string, any> | undefined,
+  headers: Record<string, string>
+) => Promise<{ data: any; headers: Record<string, any> }>;
+
+const httpTransport: GitlabTransport = (url, params, headers) =>
+  request({ url, headers, params });
+
+/**
+ * Extract the rel="next" URL from a Link header (keyset pagination)
+ */
+function parseNextLink(link?: string): string | null {
+  if (!link) return null;
+  for (const part of link.split(",")) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="next"/);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+/**
+ * Shared GitLab client.
+ *
+ * `getAll` follows `X-Next-Page` (offset) or `Link: rel="next"` (keyset)
+ * until the last page or the `maxPages` cap. Every call that stopped at the
+ * cap is recorded in `truncated` so routes can report incomplete data.
+ * `stats.calls` counts every HTTP request made through the client.
+ * `maxPages` defaults to GITLAB_MAX_PAGES (pages of 100 items each).
+ *
+ * Requests go through http.ts (timeouts, retries on 429 / 5xx honoring
+ * RateLimit-Reset) unless a `transport` is given (recorded responses in
+ * tests). Callers that skip a failed call and carry on report it with
+ * `recordFailure`, so the EOD can say it is incomplete.
+ */
+export function createGitlabClient(
+  options: { maxPages?: number; transport?: GitlabTransport } = {}
+) {
+  const transport = options.transport ?? httpTransport;
+  const { api, token, maxPages: defaultMaxPages } = getConfig().gitlab;
+  const maxPages = options.maxPages ?? defaultMaxPages;
+  const headers = { "PRIVATE-TOKEN": token };
+  const truncated: TruncatedCall[] = [];
+  const failures: FailedCall[] = [];
+  const stats = { calls: 0 };
+
+  async function get<T = any>(
+    path: string,
+    params?: Record<string, any>
+  ): Promise<T> {
+    stats.calls++;
+    const res = await transport(`${api}${path}`, params, headers);
+    return res.data;
+  }
+
+  async function getAll<T = any>(
+    path: string,
+    params: Record<string, any> = {}
+  ): Promise<T[]> {
+    const items: T[] = [];
+    let url = `${api}${path}`;
+    let query: Record<string, any> | undefined = { per_page: 100, ...params };
+    let pages = 0;
+
+    while (true) {
+      stats.calls++;
+      const res = await transport(url, query, headers);
+      pages++;
+      if (Array.isArray(res.data)) items.push(...res.data);
+
+      const nextPage: string | undefined = res.headers["x-next-page"];
+      const nextLink = parseNextLink(res.headers["link"]);
+      if (!nextPage && !nextLink) break;
+
+      if (pages >= maxPages) {
+        truncated.push({ path, pages });
+        console.warn(
+          `⚠️ Pagination cap hit for ${path} (${pages} pages, ${items.length} items)`
+        );
+        break;
+      }
+
+      if (nextPage) {
+        query = { ...query, page: nextPage };
+      } else {
+        // Keyset links already carry every query param
+        url = nextLink!;
+        query = undefined;
+      }
+    }
+
+    return items;
+  }
+
+  /** Log a call the caller gave up on and remember it for the report */
+  function recordFailure(call: string, err: any) {
+    const status = err.response?.status;
+    const detail = err.response?.data?.message;
+    const message = typeof detail === "string" ? detail : err.message || String(err);
+    const error = status ? `${status} - ${message}` : message;
+    failures.push({ call, error });
+    console.warn(`⚠️ ${call} failed: ${error}`);
+  }
+
+  return { get, getAll, recordFailure, maxPages, truncated, failures, stats };
+}
+
+export type GitlabClient = ReturnType<typeof createGitlabClient>;
+
+export function projectPath(projectId: string) {
+  return `/projects/${encodeURIComponent(projectId)}`;
+}
+
+export type GitlabProject = {
+  id: string;
+  /** Short, human readable name shown next to each item (e.g. "backend") */
+  name: string;
+  /** Full namespace path (e.g. "acme/platform/backend") */
+  path: string;
+  webUrl?: string;
+};
+
+function toProject(p: any): GitlabProject {
+  return {
+    id: String(p.id),
+    name: p.path || p.name || String(p.id),
+    path: p.path_with_namespace || p.path || String(p.id),
+    webUrl: p.web_url,
+  };
+}
+
+/**
+ * Resolve the set of projects to scan.
+ *
+ * Config:
+ * - GITLAB_PROJECT_IDS: comma-separated project ids or paths
+ * - GITLAB_PROJECT_ID: legacy single project (still supported)
+ * - GITLAB_GROUP_ID: comma-separated group ids/paths; all their (non-archived)
+ *   projects, including subgroups, are scanned
+ *
+ * Projects listed both directly and via a group are only scanned once.
+ */
+export async function resolveProjects(
+  gitlab: GitlabClient
+): Promise<GitlabProject[]> {
+  const projectIds = Array.from(
+    new Set([
+      ...splitList(process.env.GITLAB_PROJECT_IDS),
+      ...splitList(process.env.GITLAB_PROJECT_ID),
+    ])
+  );
+  const groupIds = splitList(process.env.GITLAB_GROUP_ID);
+
+  if (!projectIds.length && !groupIds.length) {
+    throw new Error(
+      "No GitLab projects configured: set GITLAB_PROJECT_IDS and/or GITLAB_GROUP_ID"
+    );
+  }
+
+  const projects = new Map<string, GitlabProject>();
+
+  for (const id of projectIds) {
+    try {
+      const project = toProject(await gitlab.get(projectPath(id)));
+      projects.set(project.id, project);
+    } catch (err: any) {
+      // Keep scanning with the raw id; the per-project calls will surface errors
+      console.warn(`⚠️ Could not fetch project ${id}:`, err.message || err);
+      projects.set(id, { id, name: id, path: id });
+    }
+  }
+
+  for (const groupId of groupIds) {
+    try {
+      const groupProjects = await gitlab.getAll(
+        `/groups/${encodeURIComponent(groupId)}/projects`,
+        { include_subgroups: true, archived: false, simple: true }
+      );
+      for (const p of groupProjects) {
+        const project = toProject(p);
+        if (!projects.has(project.id)) projects.set(project.id, project);
+      }
+    } catch (err: any) {
+      // Its projects are missing from the scan, so the report is incomplete
+      gitlab.recordFailure(`Projects of group ${groupId}`, err);
+    }
+  }
+
+  return Array.from(projects.values());
+}
+
+/**
+ * Label for an MR's project: the tracked project name when known, else the
+ * path from the MR's own references (e.g. "acme/backend!12" → "acme/backend")
+ */
+export function mrProjectLabel(
+  mr: any,
+  projectsById: Map<string, GitlabProject>
+) {
+  const known = projectsById.get(String(mr.project_id));
+  if (known) return known.name;
+  const full: string | undefined = mr.references?.full;
+  return full ? full.replace(/!\d+$/, "") : String(mr.project_id);
+}
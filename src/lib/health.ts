@@ -0,0 +1,122 @@
+import { configProblems, configSecrets } from "./config";
+import { createGitlabClient } from "./gitlab";
+import { slackClient } from "./slack";
+import { resolveSummarizer } from "./summarizers";
+
+/**
+ * Readiness checks behind /health: the config, the GitLab token, the Slack
+ * bot token and the default summarizer's model endpoint. Results carry
+ * scopes, names and error messages only, never a token.
+ */
+export type HealthCheck = {
+  ok: boolean;
+  ms: number;
+  error?: string;
+  [detail: string]: unknown;
+};
+
+export type HealthReport = {
+  ok: boolean;
+  checks: Record<"config" | "gitlab" | "slack" | "model", HealthCheck>;
+};
+
+const CHECK_TIMEOUT_MS = 10_000;
+
+/** Either of these lets the token read everything the EOD needs */
+const GITLAB_SCOPES = ["read_api", "api"];
+/** Posting EODs and opening the DM with each member */
+const SLACK_SCOPES = ["chat:write", "im:write"];
+
+/** Error text with any configured secret blanked out */
+function scrub(err: any) {
+  let message = String(
+    err?.data?.error || err?.response?.data?.message || err?.message || err
+  );
+  for (const secret of configSecrets()) {
+    message = message.split(secret).join("[secret]");
+  }
+  const status = err?.response?.status ?? err?.status;
+  return status ? `${status} - ${message}` : message;
+}
+
+async function timed(
+  probe: () => Promise<Record<string, unknown>>
+): Promise<HealthCheck> {
+  const started = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const details = await Promise.race([
+      probe(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`timed out after ${CHECK_TIMEOUT_MS / 1000}s`)),
+          CHECK_TIMEOUT_MS
+        );
+      }),
+    ]);
+    return { ok: true, ms: Date.now() - started, ...details };
+  } catch (err: any) {
+    return { ok: false, ms: Date.now() - started, error: scrub(err) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * The token's scopes and expiry (GitLab 15.5+); older instances only get a
+ * "the token works" answer from /user
+ */
+async function checkGitlab() {
+  const gitlab = createGitlabClient();
+  let token: any;
+  try {
+    token = await gitlab.get("/personal_access_tokens/self");
+  } catch (err: any) {
+    if (err.response?.status !== 404) throw err;
+    await gitlab.get("/user");
+    return { scopes: "unknown" };
+  }
+
+  const scopes: string[] = token.scopes ?? [];
+  if (!scopes.some((s) => GITLAB_SCOPES.includes(s))) {
+    throw new Error(
+      `token lacks the read_api scope (has: ${scopes.join(", ") || "none"})`
+    );
+  }
+  return { scopes, expiresAt: token.expires_at ?? null };
+}
+
+async function checkSlack() {
+  const auth = await slackClient().auth.test();
+  const scopes = auth.response_metadata?.scopes;
+  const missing = scopes ? SLACK_SCOPES.filter((s) => !scopes.includes(s)) : [];
+  if (missing.length) {
+    throw new Error(`bot token lacks scope(s): ${missing.join(", ")}`);
+  }
+  return { team: auth.team, bot: auth.user, scopes: scopes ?? "unknown" };
+}
+
+async function checkModel() {
+  const summarizer = resolveSummarizer();
+  if (!summarizer.check) return { summarizer: summarizer.name, model: "none needed" };
+  return { summarizer: summarizer.name, ...(await summarizer.check()) };
+}
+
+/**
+ * Run every check (in parallel). Without a valid config the service checks
+ * are skipped: their clients could not be built.
+ */
+export async function runHealthChecks(): Promise<HealthReport> {
+  const problems = configProblems();
+  const config: HealthCheck = problems.length
+    ? { ok: false, ms: 0, error: "invalid configuration", problems }
+    : { ok: true, ms: 0 };
+
+  const skipped: HealthCheck = { ok: false, ms: 0, error: "skipped: invalid configuration" };
+  const [gitlab, slack, model] = problems.length
+    ? [skipped, skipped, skipped]
+    : await Promise.all([timed(checkGitlab), timed(checkSlack), timed(checkModel)]);
+
+  const checks = { config, gitlab, slack, model };
+  return { ok: Object.values(checks).every((c) => c.ok), checks };
+}
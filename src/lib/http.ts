@@ -0,0 +1,147 @@
+import axios, { AxiosRequestConfig, AxiosResponse } from "axios";
+
+/**
+ * Shared HTTP layer for the GitLab / GitHub / Jira / Linear / Ollama calls
+ * and Slack response URLs. Every request gets a timeout; 429s, 5xx answers,
+ * GitHub's 403 rate limits and dropped connections are retried with
+ * exponential backoff, waiting exactly as long as the server asks when it
+ * says (Retry-After, GitLab's RateLimit-Reset, GitHub's X-RateLimit-Reset).
+ *
+ * EOD_HTTP_TIMEOUT_MS (default 15000) / EOD_HTTP_RETRIES (default 3)
+ */
+export type RetryOptions = {
+  /** Retries after the first attempt */
+  retries?: number;
+  timeoutMs?: number;
+};
+
+const DEFAULT_TIMEOUT_MS = Number(process.env.EOD_HTTP_TIMEOUT_MS) || 15_000;
+// 0 is a valid setting (no retries), so no `|| 3` here
+const DEFAULT_RETRIES = /^\d+$/.test(process.env.EOD_HTTP_RETRIES?.trim() ?? "")
+  ? Number(process.env.EOD_HTTP_RETRIES)
+  : 3;
+const BACKOFF_BASE_MS = 500;
+/** Longer server-requested waits fail the call instead of stalling the run */
+const MAX_WAIT_MS = 60_000;
+
+const RETRYABLE_CODES = new Set([
+  "ECONNRESET",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EPIPE",
+]);
+
+function header(err: any, name: string): string | undefined {
+  const value = err.response?.headers?.[name];
+  return value === undefined ? undefined : String(value);
+}
+
+function isRetryable(err: any) {
+  const status: number | undefined = err.response?.status;
+  if (!status) return RETRYABLE_CODES.has(err.code);
+  if (status === 429 || (status >= 500 && status !== 501)) return true;
+  // GitHub signals an exhausted rate limit with a 403
+  return status === 403 && header(err, "x-ratelimit-remaining") === "0";
+}
+
+/** How long the server asked us to wait, if it said */
+function requestedWait(err: any): number | undefined {
+  const retryAfter = header(err, "retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    return Number.isFinite(seconds)
+      ? seconds * 1000
+      : Date.parse(retryAfter) - Date.now();
+  }
+  // Unix timestamps (seconds) of the next rate limit window
+  const reset = header(err, "ratelimit-reset") ?? header(err, "x-ratelimit-reset");
+  if (reset && Number.isFinite(Number(reset))) {
+    return Number(reset) * 1000 - Date.now();
+  }
+  return undefined;
+}
+
+function backoff(attempt: number) {
+  const exponential = BACKOFF_BASE_MS * 2 ** attempt;
+  return exponential + Math.random() * exponential * 0.5;
+}
+
+/** "GET https://gitlab.com/api/v4/projects/1/…", without the query string */
+function describe(config: AxiosRequestConfig) {
+  return `${(config.method ?? "get").toUpperCase()} ${String(config.url).split("?")[0]}`;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * axios request with a timeout and retries (see the module comment)
+ */
+export async function request<T = any>(
+  config: AxiosRequestConfig,
+  options: RetryOptions = {}
+): Promise<AxiosResponse<T>> {
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const timeout = options.timeoutMs ?? config.timeout ?? DEFAULT_TIMEOUT_MS;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await axios.request<T>({ ...config, timeout });
+    } catch (err: any) {
+      if (attempt >= retries || !isRetryable(err)) throw err;
+
+      const asked = requestedWait(err);
+      if (asked !== undefined && asked > MAX_WAIT_MS) {
+        console.warn(
+          `⚠️ ${describe(config)} rate limited for ${Math.ceil(asked / 1000)}s; not waiting`
+        );
+        throw err;
+      }
+      const wait = Math.max(0, asked ?? backoff(attempt));
+      console.warn(
+        `⚠️ ${describe(config)} → ${err.response?.status ?? err.code}; retry ${
+          attempt + 1
+        }/${retries} in ${(wait / 1000).toFixed(1)}s`
+      );
+      await sleep(wait);
+    }
+  }
+}
+
+/** axios-shaped helpers over `request` */
+export const http = {
+  get<T = any>(url: string, config: AxiosRequestConfig = {}, options?: RetryOptions) {
+    return request<T>({ ...config, method: "get", url }, options);
+  },
+  post<T = any>(
+    url: string,
+    data?: unknown,
+    config: AxiosRequestConfig = {},
+    options?: RetryOptions
+  ) {
+    return request<T>({ ...config, method: "post", url, data }, options);
+  },
+};
+
+/**
+ * `Promise.all(items.map(fn))` with at most `limit` calls in flight; results
+ * keep the input order
+ */
+export async function mapLimit<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker)
+  );
+  return results;
+}
@@ -0,0 +1,141 @@
+import { GitlabClient, projectPath } from "./gitlab";
+import type { ActivityItem, MrTransition } from "./sources/types";
+
+export type LifecycleWindow = { since: Date; until: Date };
+
+/**
+ * Transitions from most to least significant. An MR is listed once, under
+ * its most significant transition, with the others alongside.
+ */
+export const MR_TRANSITIONS: MrTransition[] = [
+  "merged",
+  "closed",
+  "reopened",
+  "ready",
+  "opened",
+  "pushed",
+  "pipeline",
+  "updated",
+];
+
+/** Section heading per transition, used by the activity text and blocks */
+export const TRANSITION_HEADINGS: Record<MrTransition, string> = {
+  merged: "MRs Merged",
+  closed: "MRs Closed",
+  reopened: "MRs Reopened",
+  ready: "MRs Marked Ready",
+  opened: "MRs Opened",
+  pushed: "MRs With New Commits",
+  pipeline: "MRs With New Pipelines",
+  updated: "Other MR Updates",
+};
+
+function inWindow(value: string | null | undefined, window: LifecycleWindow) {
+  if (!value) return false;
+  const at = new Date(value);
+  return at >= window.since && at < window.until;
+}
+
+/**
+ * Transitions visible from an MR's own timestamps (created / merged /
+ * closed). Enough for GitHub PRs; GitLab adds events on top.
+ */
+export function transitionsFromTimestamps(
+  mr: { created_at?: string; merged_at?: string | null; closed_at?: string | null },
+  window: LifecycleWindow
+) {
+  const transitions = new Set<MrTransition>();
+  if (inWindow(mr.created_at, window)) transitions.add("opened");
+  if (inWindow(mr.merged_at, window)) transitions.add("merged");
+  else if (inWindow(mr.closed_at, window)) transitions.add("closed");
+  return transitions;
+}
+
+const READY_NOTE = /marked (this merge request )?as \*\*ready\*\*|unmarked as a \*\*(work in progress|draft)\*\*/i;
+const PUSH_NOTE = /^added (\d+) (new )?commits?/i;
+
+/**
+ * Classify a GitLab MR by what happened in the window, from its timestamps,
+ * resource state events (closed / reopened / merged), system notes (marked
+ * ready, commits added) and MR pipelines. Returns the transitions in
+ * significance order plus a short "3 commits pushed · pipeline failed" detail.
+ */
+export async function classifyMergeRequest(
+  gitlab: GitlabClient,
+  projectId: string,
+  mr: any,
+  window: LifecycleWindow
+): Promise<{ transitions: MrTransition[]; detail?: string }> {
+  const mrPath = `${projectPath(projectId)}/merge_requests/${mr.iid}`;
+  const transitions = transitionsFromTimestamps(mr, window);
+  const details: string[] = [];
+
+  try {
+    const stateEvents = await gitlab.getAll(`${mrPath}/resource_state_events`);
+    for (const event of stateEvents) {
+      if (!inWindow(event.created_at, window)) continue;
+      if (event.state === "closed") transitions.add("closed");
+      if (event.state === "reopened") transitions.add("reopened");
+      if (event.state === "merged") transitions.add("merged");
+    }
+  } catch (err: any) {
+    gitlab.recordFailure(`State events of ${mrPath}`, err);
+  }
+
+  try {
+    const notes = await gitlab.getAll(`${mrPath}/notes`, {
+      sort: "asc",
+      order_by: "created_at",
+    });
+    let pushedCommits = 0;
+    for (const note of notes) {
+      if (!note.system || !inWindow(note.created_at, window)) continue;
+      if (READY_NOTE.test(note.body || "")) transitions.add("ready");
+      const push = String(note.body || "").match(PUSH_NOTE);
+      if (push) pushedCommits += Number(push[1]);
+    }
+    if (pushedCommits) {
+      transitions.add("pushed");
+      details.push(`${pushedCommits} commit${pushedCommits === 1 ? "" : "s"} pushed`);
+    }
+  } catch (err: any) {
+    gitlab.recordFailure(`Notes of ${mrPath}`, err);
+  }
+
+  try {
+    const pipelines = await gitlab.getAll(`${mrPath}/pipelines`);
+    const recent = pipelines.filter((p: any) =>
+      inWindow(p.created_at ?? p.updated_at, window)
+    );
+    if (recent.length) {
+      transitions.add("pipeline");
+      // Newest first, as GitLab lists them
+      details.push(`pipeline ${recent[0].status}`);
+    }
+  } catch (err: any) {
+    gitlab.recordFailure(`Pipelines of ${mrPath}`, err);
+  }
+
+  if (!transitions.size) transitions.add("updated");
+
+  return {
+    transitions: MR_TRANSITIONS.filter((t) => transitions.has(t)),
+    detail: details.length ? details.join(" · ") : undefined,
+  };
+}
+
+/** Most significant transition of an authored MR ("updated" if unknown) */
+export function primaryTransition(item: ActivityItem): MrTransition {
+  return item.transitions?.[0] ?? "updated";
+}
+
+/**
+ * Authored MRs grouped by primary transition, in significance order
+ */
+export function groupByTransition(mrs: ActivityItem[]) {
+  return MR_TRANSITIONS.map((transition) => ({
+    transition,
+    heading: TRANSITION_HEADINGS[transition],
+    mrs: mrs.filter((mr) => primaryTransition(mr) === transition),
+  })).filter((group) => group.mrs.length);
+}
@@ -0,0 +1,237 @@
+import { getConfig } from "./config";
+import { createGitlabClient, GitlabClient, projectPath } from "./gitlab";
+import { TeamMember } from "./roster";
+import { openWorkRefs } from "./structured";
+import { DAY_MS } from "./util";
+
+/** Issue labels that mark an issue as blocked (case-insensitive) */
+const BLOCKED_LABELS = ["blocked", "blocker", "on hold"];
+
+export type OpenMergeRequest = {
+  project: string;
+  title: string;
+  web_url: string;
+  /** Source branch */
+  branch?: string;
+  draft: boolean;
+  approved: boolean;
+  /** Head pipeline status ("success", "failed", ...) when there is one */
+  pipeline?: string;
+  unresolvedThreads: number;
+  hasConflicts: boolean;
+  reviewers: string[];
+  /** Days since the MR was opened */
+  ageDays: number;
+  /** Days since it was marked ready (see readySince) */
+  reviewWaitDays: number;
+};
+
+export type OpenIssue = {
+  project: string;
+  title: string;
+  web_url: string;
+  dueDate?: string;
+  labels: string[];
+};
+
+/** A blocker backed by a concrete signal, never by the model's guess */
+export type Blocker = { title: string; web_url: string; reason: string };
+
+/** The member's open work: input for the Next / Blockers sections */
+export type OpenWork = {
+  mergeRequests: OpenMergeRequest[];
+  issues: OpenIssue[];
+  blockers: Blocker[];
+};
+
+function daysSince(at: string, now: Date) {
+  return Math.floor((now.getTime() - Date.parse(at)) / DAY_MS);
+}
+
+function projectFromReference(item: any) {
+  const full: string | undefined = item.references?.full;
+  return full ? full.replace(/[!#]\d+$/, "") : String(item.project_id);
+}
+
+/**
+ * GitLab's system note for draft → ready (older versions: "unmarked as a
+ * **Work In Progress**")
+ */
+const READY_NOTE = /^(marked this merge request as \*\*ready\*\*|unmarked as a \*\*(draft|work in progress)\*\*)/i;
+
+/**
+ * When the MR was last marked ready, from its system notes; `updated_at`
+ * when there is no such note (never a draft, or the notes didn't load)
+ */
+function readySince(mr: any, discussions: any[]) {
+  const marked = discussions
+    .flatMap((d: any) => d.notes || [])
+    .filter((n: any) => n.system && READY_NOTE.test(n.body || ""))
+    .map((n: any) => n.created_at as string)
+    .sort();
+  return marked[marked.length - 1] ?? mr.updated_at ?? mr.created_at;
+}
+
+async function inspectMergeRequest(
+  gitlab: GitlabClient,
+  listed: any,
+  now: Date
+): Promise<OpenMergeRequest> {
+  const mrPath = `${projectPath(String(listed.project_id))}/merge_requests/${listed.iid}`;
+  // The list payload has no head pipeline; the single MR does
+  const [mr, approvals, discussions] = await Promise.all([
+    gitlab.get(mrPath),
+    gitlab.get(`${mrPath}/approvals`).catch(() => undefined),
+    gitlab.getAll(`${mrPath}/discussions`).catch(() => [] as any[]),
+  ]);
+
+  return {
+    project: projectFromReference(mr),
+    title: mr.title,
+    web_url: mr.web_url,
+    branch: mr.source_branch,
+    draft: Boolean(mr.draft ?? mr.work_in_progress),
+    approved: Boolean(approvals?.approved && approvals?.approved_by?.length),
+    pipeline: mr.head_pipeline?.status,
+    unresolvedThreads: discussions.filter((d: any) =>
+      d.notes?.some((n: any) => n.resolvable && !n.resolved)
+    ).length,
+    hasConflicts: Boolean(mr.has_conflicts),
+    reviewers: (mr.reviewers || []).map((r: any) => r.username),
+    ageDays: daysSince(mr.created_at, now),
+    reviewWaitDays: daysSince(readySince(mr, discussions), now),
+  };
+}
+
+/**
+ * Blockers from concrete signals:
+ * - MR ready but unapproved for more than EOD_REVIEW_WAIT_DAYS (default 2),
+ *   counted from when it was marked ready
+ * - MR head pipeline failing, or merge conflicts
+ * - assigned issue past its due date, or labelled blocked / on hold
+ */
+export function deriveBlockers(
+  work: Omit<OpenWork, "blockers">,
+  today: string
+): Blocker[] {
+  const { reviewWaitDays } = getConfig().openWork;
+  const blockers: Blocker[] = [];
+
+  for (const mr of work.mergeRequests) {
+    if (!mr.draft && !mr.approved && mr.reviewWaitDays > reviewWaitDays) {
+      blockers.push({
+        title: mr.title,
+        web_url: mr.web_url,
+        reason: `waiting on review for ${mr.reviewWaitDays} days${
+          mr.reviewers.length ? ` (${mr.reviewers.join(", ")})` : " (no reviewer)"
+        }`,
+      });
+    }
+    if (mr.pipeline === "failed") {
+      blockers.push({ title: mr.title, web_url: mr.web_url, reason: "pipeline failing" });
+    }
+    if (mr.hasConflicts) {
+      blockers.push({ title: mr.title, web_url: mr.web_url, reason: "merge conflicts" });
+    }
+  }
+
+  for (const issue of work.issues) {
+    if (issue.dueDate && issue.dueDate < today) {
+      blockers.push({
+        title: issue.title,
+        web_url: issue.web_url,
+        reason: `overdue since ${issue.dueDate}`,
+      });
+    }
+    const blocked = issue.labels.find((l) => BLOCKED_LABELS.includes(l.toLowerCase()));
+    if (blocked) {
+      blockers.push({
+        title: issue.title,
+        web_url: issue.web_url,
+        reason: `labelled "${blocked}"`,
+      });
+    }
+  }
+
+  return blockers;
+}
+
+/**
+ * The member's open MRs (draft / awaiting review / failing / unresolved
+ * threads) and open assigned issues across the instance, with blockers.
+ * `today` is the report day (YYYY-MM-DD) used for due dates.
+ */
+export async function collectOpenWork(
+  member: TeamMember,
+  today: string,
+  now = new Date(),
+  gitlab: GitlabClient = createGitlabClient()
+): Promise<OpenWork> {
+  const openMRs = await gitlab.getAll(`/merge_requests`, {
+    author_id: member.gitlabUserId,
+    state: "opened",
+    scope: "all",
+  });
+  const mergeRequests: OpenMergeRequest[] = [];
+  for (const mr of openMRs) {
+    try {
+      mergeRequests.push(await inspectMergeRequest(gitlab, mr, now));
+    } catch (err: any) {
+      console.warn(`⚠️ Could not inspect open MR ${mr.web_url}:`, err.message || err);
+    }
+  }
+
+  const openIssues = await gitlab.getAll(`/issues`, {
+    assignee_id: member.gitlabUserId,
+    state: "opened",
+    scope: "all",
+  });
+  const issues: OpenIssue[] = openIssues.map((issue: any) => ({
+    project: projectFromReference(issue),
+    title: issue.title,
+    web_url: issue.web_url,
+    dueDate: issue.due_date || undefined,
+    labels: issue.labels || [],
+  }));
+
+  const blockers = deriveBlockers({ mergeRequests, issues }, today);
+  console.log(
+    `📋 Open work: ${mergeRequests.length} MR(s), ${issues.length} issue(s), ${blockers.length} blocker(s)`
+  );
+  return { mergeRequests, issues, blockers };
+}
+
+/**
+ * Plain-text open work for the prompt, each line led by its ref (W1, B1, ...)
+ */
+export function buildOpenWorkText(work: OpenWork) {
+  const refs = openWorkRefs(work);
+  const mrLines = work.mergeRequests.map((mr, i) => {
+    const status = [
+      mr.draft ? "draft" : mr.approved ? "approved" : "awaiting review",
+      ...(mr.pipeline ? [`pipeline ${mr.pipeline}`] : []),
+      ...(mr.unresolvedThreads ? [`${mr.unresolvedThreads} unresolved threads`] : []),
+      `open ${mr.ageDays}d`,
+    ].join(", ");
+    return `• ${refs.openWork[i][0]} [${mr.project}] ${mr.title} (${status}) → ${mr.web_url}`;
+  });
+  const issueLines = work.issues.map(
+    (issue, i) =>
+      `• ${refs.openWork[work.mergeRequests.length + i][0]} [${issue.project}] ${issue.title}${
+        issue.dueDate ? ` (due ${issue.dueDate})` : ""
+      } → ${issue.web_url}`
+  );
+  const blockerLines = work.blockers.map(
+    (b, i) => `• ${refs.blockers[i][0]} ${b.title}: ${b.reason} → ${b.web_url}`
+  );
+  const list = (lines: string[]) => (lines.length ? lines.join("\n") : "None");
+
+  return `Open MRs:
+${list(mrLines)}
+
+Assigned Open Issues:
+${list(issueLines)}
+
+Blockers (from signals):
+${list(blockerLines)}`;
+}
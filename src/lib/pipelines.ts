@@ -0,0 +1,157 @@
+import { GitlabClient, GitlabProject, projectPath } from "./gitlab";
+import { TeamMember } from "./roster";
+import type { ActivityItem } from "./sources/types";
+
+export type PipelineWindow = { since: Date; until: Date };
+
+/**
+ * CI collection is on unless GITLAB_PIPELINES=false (it costs a few calls
+ * per project and per MR branch)
+ */
+export function pipelinesEnabled() {
+  return process.env.GITLAB_PIPELINES?.trim().toLowerCase() !== "false";
+}
+
+/** Pipeline status → the word used in the compact summary line */
+const STATUS_LABELS: Record<string, string> = {
+  success: "passed",
+  failed: "failed",
+  canceled: "canceled",
+  skipped: "skipped",
+  manual: "manual",
+};
+
+function statusLabel(status?: string) {
+  return (status && STATUS_LABELS[status]) || "running";
+}
+
+async function usernameOf(gitlab: GitlabClient, member: TeamMember) {
+  const user = await gitlab.get(`/users/${member.gitlabUserId}`);
+  return user.username as string;
+}
+
+/**
+ * Pipelines the member triggered, or that ran on the source branches of
+ * their MRs, updated in the window; plus the deployments those pipelines (or
+ * the member directly) made. Returned as "pipeline" / "deployment" items.
+ *
+ * `mrBranches` maps project id → source branches of the member's MRs.
+ */
+export async function collectPipelines(
+  gitlab: GitlabClient,
+  member: TeamMember,
+  projects: GitlabProject[],
+  mrBranches: Map<string, Set<string>>,
+  window: PipelineWindow
+): Promise<ActivityItem[]> {
+  const range = {
+    updated_after: window.since.toISOString(),
+    updated_before: window.until.toISOString(),
+  };
+  const username = await usernameOf(gitlab, member);
+  const items: ActivityItem[] = [];
+
+  for (const project of projects) {
+    const pipelines = new Map<number, any>();
+    const queries = [
+      { username, ...range },
+      ...Array.from(mrBranches.get(project.id) ?? []).map((ref) => ({
+        ref,
+        ...range,
+      })),
+    ];
+
+    for (const params of queries) {
+      try {
+        const found = await gitlab.getAll(
+          `${projectPath(project.id)}/pipelines`,
+          params
+        );
+        for (const p of found) pipelines.set(p.id, p);
+      } catch (err: any) {
+        gitlab.recordFailure(`Pipelines of ${project.name}`, err);
+      }
+    }
+
+    for (const p of pipelines.values()) {
+      items.push({
+        source: "gitlab",
+        kind: "pipeline",
+        id: String(p.id),
+        project: project.name,
+        title: `Pipeline #${p.id} (${p.ref})`,
+        web_url: p.web_url,
+        branch: p.ref,
+        state: p.status,
+        created_at: p.created_at,
+        updated_at: p.updated_at,
+      });
+    }
+
+    try {
+      const deployments = await gitlab.getAll(
+        `${projectPath(project.id)}/deployments`,
+        { ...range, order_by: "updated_at", status: "success" }
+      );
+      for (const d of deployments) {
+        const pipelineId = d.deployable?.pipeline?.id;
+        const mine =
+          (pipelineId && pipelines.has(pipelineId)) ||
+          String(d.user?.id) === String(member.gitlabUserId);
+        if (!mine) continue;
+
+        const environment = d.environment?.name || "unknown environment";
+        items.push({
+          source: "gitlab",
+          kind: "deployment",
+          id: String(d.id),
+          project: project.name,
+          title: `${project.name}@${d.ref} → ${environment}`,
+          web_url: d.environment?.external_url || project.webUrl || "",
+          branch: d.ref,
+          state: d.status,
+          created_at: d.updated_at || d.created_at,
+          detail: environment,
+        });
+      }
+    } catch (err: any) {
+      // Projects without environments answer 403/404 here; that's expected
+      if (![403, 404].includes(err.response?.status)) {
+        gitlab.recordFailure(`Deployments of ${project.name}`, err);
+      }
+    }
+  }
+
+  console.log(
+    `🚦 ${items.filter((i) => i.kind === "pipeline").length} pipeline(s), ${
+      items.filter((i) => i.kind === "deployment").length
+    } deployment(s) in window`
+  );
+  return items;
+}
+
+/**
+ * Compact pipeline tally: counts per outcome ("5 passed, 1 failed") and the
+ * failed pipelines, so the line can link to them
+ */
+export function summarizePipelines(pipelines: ActivityItem[]) {
+  const counts = new Map<string, number>();
+  for (const p of pipelines) {
+    const label = statusLabel(p.state);
+    counts.set(label, (counts.get(label) || 0) + 1);
+  }
+  const order = ["passed", "failed", "running", "canceled", "manual", "skipped"];
+  return {
+    text: order
+      .filter((label) => counts.has(label))
+      .map((label) => `${counts.get(label)} ${label}`)
+      .join(", "),
+    failed: pipelines.filter((p) => p.state === "failed"),
+  };
+}
+
+/** "deployed to staging, production" (distinct environments, in order) */
+export function summarizeDeployments(deployments: ActivityItem[]) {
+  const environments = Array.from(new Set(deployments.map((d) => d.detail)));
+  return environments.length ? `deployed to ${environments.join(", ")}` : "";
+}
@@ -0,0 +1,129 @@
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+
+/**
+ * Named EOD prompt templates ("styles"): one Markdown file per style in
+ * EOD_PROMPTS_DIR (default `prompts/`), e.g. prompts/terse.md for
+ * `style=terse`. Optional YAML front matter:
+ *
+ * - description: shown in the style list
+ * - system: the system message
+ * - branches: false to keep branch names out of the activity text
+ *
+ * The body is the prompt, with `{{variable}}` placeholders (see
+ * PromptVariables).
+ */
+export type PromptTemplate = {
+  style: string;
+  description?: string;
+  system: string;
+  body: string;
+  branches: boolean;
+};
+
+/** Variables available to templates, addressed with dots: {{window.since}} */
+export type PromptVariables = {
+  /** The expected first line, e.g. "*EOD UPDATE* (Mon, 19 Oct)" */
+  heading: string;
+  user: { id: string; name: string };
+  window: {
+    since: string;
+    until: string;
+    day: string;
+    label: string;
+    timezone: string;
+  };
+  /** Every activity section below, in order */
+  activity: string;
+  sections: {
+    commits: string;
+    mergeRequests: string;
+    reviews: string;
+    issues: string;
+    comments: string;
+    ci: string;
+  };
+  counts: Record<
+    | "commits"
+    | "mergeRequests"
+    | "reviews"
+    | "issues"
+    | "comments"
+    | "pipelines"
+    | "deployments",
+    number
+  >;
+  openWork: string;
+  note: string;
+};
+
+export const DEFAULT_STYLE = "default";
+const DEFAULT_SYSTEM =
+  "You are a concise assistant generating daily developer EOD summaries.";
+const STYLE_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+function promptsDir() {
+  return path.resolve(process.cwd(), process.env.EOD_PROMPTS_DIR || "prompts");
+}
+
+/** Style names available in the prompts directory */
+export function listStyles() {
+  try {
+    return fs
+      .readdirSync(promptsDir())
+      .filter((file) => file.endsWith(".md"))
+      .map((file) => file.slice(0, -3))
+      .filter((style) => STYLE_PATTERN.test(style))
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+function parseTemplate(style: string, content: string): PromptTemplate {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  const meta = match ? (YAML.parse(match[1]) ?? {}) : {};
+  const body = (match ? match[2] : content).trim();
+  if (!body) throw new Error(`Prompt template "${style}" is empty`);
+
+  return {
+    style,
+    description: meta.description ? String(meta.description) : undefined,
+    system: meta.system ? String(meta.system).trim() : DEFAULT_SYSTEM,
+    body,
+    branches: meta.branches !== false,
+  };
+}
+
+/**
+ * The template for `style` (else EOD_STYLE, else "default"). Read on every
+ * call so edited templates apply without a restart.
+ */
+export function loadPromptTemplate(style?: string): PromptTemplate {
+  const name = (style || process.env.EOD_STYLE || DEFAULT_STYLE).trim();
+  const styles = listStyles();
+  if (!STYLE_PATTERN.test(name) || !styles.includes(name)) {
+    throw new Error(
+      `Unknown style "${name}" (available: ${styles.join(", ") || "none"} in ${promptsDir()})`
+    );
+  }
+  const content = fs.readFileSync(path.join(promptsDir(), `${name}.md`), "utf8");
+  return parseTemplate(name, content);
+}
+
+/**
+ * Fill `{{variable}}` placeholders. Unknown variables throw, so a typo in a
+ * template shows up in the prompt preview rather than as a silent gap.
+ */
+export function renderPrompt(template: PromptTemplate, variables: PromptVariables) {
+  return template.body.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, key: string) => {
+    const value = key
+      .split(".")
+      .reduce<any>((scope, part) => (scope == null ? undefined : scope[part]), variables);
+    if (value === undefined || (typeof value === "object" && value !== null)) {
+      throw new Error(`Unknown variable {{${key}}} in prompt template "${template.style}"`);
+    }
+    return String(value);
+  });
+}
@@ -0,0 +1,326 @@
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+import type { OpenWork } from "./openwork";
+import type { ActivityItem } from "./sources/types";
+import { activityRefs } from "./structured";
+
+/**
+ * Redaction applied to everything sent to a model (activity, open work and
+ * the note). Slack messages still link the real items; only the prompt is
+ * filtered.
+ *
+ * Config (first match wins): EOD_REDACTION (inline JSON) or
+ * EOD_REDACTION_PATH (.json / .yaml file):
+ *
+ * - rules: [{ name?, pattern, flags?, replace? }] regexes replaced in every
+ *   text field (titles, descriptions, branches, excerpts, note)
+ * - denyProjects / denyBranches: globs ("nda-*"); matching items (activity,
+ *   open work and its blockers) reach the model only as "restricted"
+ *   placeholders, so counts and refs still line up
+ * - stripDescriptions: project globs whose MR / issue descriptions are dropped
+ *   ("*" for all)
+ *
+ * Project globs match the short name ("nda-x") or the full path
+ * ("acme/nda-x"), whichever an item carries: activity is labelled with short
+ * names, open work with full paths.
+ * - secrets: built-in token / key / password detection (default true)
+ * - stripUrls: leave item URLs out of the prompt (default false)
+ */
+export type RedactionRule = { name: string; pattern: RegExp; replace: string };
+
+export type RedactionConfig = {
+  rules: RedactionRule[];
+  denyProjects: string[];
+  denyBranches: string[];
+  stripDescriptions: string[];
+  secrets: boolean;
+  stripUrls: boolean;
+};
+
+/** One field that had something replaced (never the original value) */
+export type RedactionEntry = {
+  /** Activity ref (C1, MR2, ...), "W1" for open work, or "note" */
+  item: string;
+  field: string;
+  rule: string;
+  matches: number;
+};
+
+export type RedactionReport = {
+  /** Items masked by a deny-list, with the glob that matched */
+  restricted: Array<{ item: string; reason: string }>;
+  /** Items whose description was stripped */
+  strippedDescriptions: string[];
+  redacted: RedactionEntry[];
+};
+
+const RESTRICTED = "restricted";
+
+/** Common credential shapes; matched values become "[secret]" */
+const SECRET_RULES: RedactionRule[] = [
+  {
+    name: "secret:private-key",
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+    replace: "[secret]",
+  },
+  {
+    name: "secret:gitlab-token",
+    pattern: /\bgl(pat|dt|rt|ptt|cbt)-[\w-]{20,}/g,
+    replace: "[secret]",
+  },
+  {
+    name: "secret:github-token",
+    pattern: /\b(gh[pousr]_[A-Za-z0-9]{36,}|github_pat_\w{40,})/g,
+    replace: "[secret]",
+  },
+  { name: "secret:slack-token", pattern: /\bxox[abposr]-[\w-]{10,}/g, replace: "[secret]" },
+  { name: "secret:aws-key", pattern: /\b(AKIA|ASIA)[0-9A-Z]{16}\b/g, replace: "[secret]" },
+  { name: "secret:api-key", pattern: /\bsk-[A-Za-z0-9_-]{20,}/g, replace: "[secret]" },
+  {
+    name: "secret:jwt",
+    pattern: /\beyJ[\w-]{10,}\.eyJ[\w-]{10,}\.[\w-]{10,}/g,
+    replace: "[secret]",
+  },
+  {
+    // `token: abc…`, `password="…"` (values already replaced are left alone)
+    name: "secret:assignment",
+    pattern:
+      /\b(password|passwd|pwd|secret|token|api[_-]?key)(\s*[:=]\s*)(?!\[secret\])["']?[^\s"']{6,}["']?/gi,
+    replace: "$1$2[secret]",
+  },
+  {
+    name: "secret:url-credentials",
+    pattern: /\b([a-z][a-z0-9+.-]*:\/\/)[^\s/:@]+:[^\s/@]+@/gi,
+    replace: "$1[secret]@",
+  },
+];
+
+function list(value: unknown): string[] {
+  if (value === undefined || value === null) return [];
+  return (Array.isArray(value) ? value : [value]).map((v) => String(v).trim()).filter(Boolean);
+}
+
+function parseRules(raw: unknown): RedactionRule[] {
+  return (Array.isArray(raw) ? raw : []).map((rule: any, i) => {
+    const where = `redaction rule #${i + 1}`;
+    const source = typeof rule === "string" ? rule : rule?.pattern;
+    if (!source) throw new Error(`Invalid ${where}: "pattern" is required`);
+    const flags = new Set(["g", ...String(rule?.flags ?? "").split("")]);
+    try {
+      return {
+        name: String(rule?.name ?? `rule:${i + 1}`),
+        pattern: new RegExp(String(source), Array.from(flags).join("")),
+        replace: String(rule?.replace ?? "[redacted]"),
+      };
+    } catch (err: any) {
+      throw new Error(`Invalid ${where}: ${err.message}`);
+    }
+  });
+}
+
+/**
+ * Load the redaction config (see the module comment). Without one, only the
+ * built-in secret detection runs.
+ */
+export function loadRedactionConfig(): RedactionConfig {
+  const inline = process.env.EOD_REDACTION;
+  const configPath = process.env.EOD_REDACTION_PATH;
+
+  let raw: any = {};
+  if (inline) {
+    raw = JSON.parse(inline);
+  } else if (configPath) {
+    const fullPath = path.resolve(process.cwd(), configPath);
+    const content = fs.readFileSync(fullPath, "utf8");
+    raw = (/\.ya?ml$/i.test(fullPath) ? YAML.parse(content) : JSON.parse(content)) ?? {};
+  }
+
+  return {
+    rules: parseRules(raw.rules),
+    denyProjects: list(raw.denyProjects ?? raw.deny_projects),
+    denyBranches: list(raw.denyBranches ?? raw.deny_branches),
+    stripDescriptions: list(raw.stripDescriptions ?? raw.strip_descriptions),
+    secrets: raw.secrets !== false,
+    stripUrls: raw.stripUrls === true || raw.strip_urls === true,
+  };
+}
+
+/** "nda-*" style glob, case-insensitive, matched against each whole value */
+function globMatch(globs: string[], ...values: Array<string | undefined>) {
+  const candidates = values.filter((v): v is string => Boolean(v));
+  if (!candidates.length) return undefined;
+  return globs.find((glob) => {
+    const pattern = glob
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*");
+    const regex = new RegExp(`^${pattern}$`, "i");
+    return candidates.some((value) => regex.test(value));
+  });
+}
+
+/**
+ * Project globs are tried against the label, its last path segment and, for
+ * GitLab URLs, the full path (`https://host/acme/nda-x/-/...` → "acme/nda-x")
+ */
+function projectGlob(globs: string[], project: string, webUrl?: string) {
+  const fullPath = webUrl?.match(/^https?:\/\/[^/]+\/(.+?)\/-\//)?.[1];
+  return globMatch(globs, project, project.split("/").pop(), fullPath);
+}
+
+/** Why a project / branch is deny-listed, if it is */
+function denial(
+  config: RedactionConfig,
+  target: { project: string; web_url?: string; branch?: string }
+) {
+  const project = projectGlob(config.denyProjects, target.project, target.web_url);
+  if (project) return `project matches "${project}"`;
+  const branch = globMatch(config.denyBranches, target.branch);
+  if (branch) return `branch matches "${branch}"`;
+  return undefined;
+}
+
+/** Applies the text rules and records what fired */
+function createRedactor(config: RedactionConfig, report: RedactionReport) {
+  const rules = [...(config.secrets ? SECRET_RULES : []), ...config.rules];
+  return (text: string | undefined, item: string, field: string) => {
+    if (!text) return text;
+    let result = text;
+    for (const rule of rules) {
+      const matches = result.match(rule.pattern)?.length ?? 0;
+      if (!matches) continue;
+      result = result.replace(rule.pattern, rule.replace);
+      report.redacted.push({ item, field, rule: rule.name, matches });
+    }
+    return result;
+  };
+}
+
+function restrictedItem(item: ActivityItem): ActivityItem {
+  return {
+    source: item.source,
+    kind: item.kind,
+    id: item.id,
+    project: RESTRICTED,
+    title: `(${RESTRICTED})`,
+    web_url: "",
+    state: item.state,
+    created_at: item.created_at,
+    updated_at: item.updated_at,
+    merged_at: item.merged_at,
+    transitions: item.transitions,
+    ...(item.review && { review: { ...item.review, excerpts: [] } }),
+  };
+}
+
+export type ModelInput = {
+  items: ActivityItem[];
+  openWork?: OpenWork;
+  note?: string;
+};
+
+/**
+ * The model's copy of a report's material: same items in the same order (so
+ * refs and counts match the real activity), with deny-listed items masked,
+ * descriptions stripped and rule / secret matches replaced
+ */
+export function redactForModel(
+  input: ModelInput,
+  config: RedactionConfig = loadRedactionConfig()
+): ModelInput & { report: RedactionReport } {
+  const report: RedactionReport = { restricted: [], strippedDescriptions: [], redacted: [] };
+  const redact = createRedactor(config, report);
+  const refs = activityRefs(input.items);
+
+  const items = input.items.map((item) => {
+    const ref = refs.get(item)!;
+    const denied = denial(config, item);
+    if (denied) {
+      report.restricted.push({ item: ref, reason: denied });
+      return restrictedItem(item);
+    }
+
+    let description = item.description;
+    if (description && projectGlob(config.stripDescriptions, item.project, item.web_url)) {
+      report.strippedDescriptions.push(ref);
+      description = undefined;
+    }
+    return {
+      ...item,
+      title: redact(item.title, ref, "title")!,
+      web_url: config.stripUrls ? "" : item.web_url,
+      branch: redact(item.branch, ref, "branch"),
+      description: redact(description, ref, "description"),
+      detail: redact(item.detail, ref, "detail"),
+      ...(item.review && {
+        review: {
+          ...item.review,
+          excerpts: item.review.excerpts.map((e) => redact(e, ref, "excerpt")!),
+        },
+      }),
+    };
+  });
+
+  let openWork: OpenWork | undefined;
+  if (input.openWork) {
+    const original = input.openWork;
+    let index = 0;
+    const mask = <
+      T extends { project: string; title: string; web_url: string; branch?: string },
+    >(
+      target: T
+    ): T => {
+      const ref = `W${++index}`;
+      const denied = denial(config, target);
+      if (denied) {
+        report.restricted.push({ item: ref, reason: denied });
+        return {
+          ...target,
+          project: RESTRICTED,
+          title: `(${RESTRICTED})`,
+          web_url: "",
+          ...(target.branch && { branch: undefined }),
+        };
+      }
+      return {
+        ...target,
+        title: redact(target.title, ref, "title")!,
+        web_url: config.stripUrls ? "" : target.web_url,
+        ...(target.branch && { branch: redact(target.branch, ref, "branch") }),
+      };
+    };
+    openWork = {
+      mergeRequests: original.mergeRequests.map(mask),
+      issues: original.issues.map(mask),
+      // Blockers about a restricted MR / issue are masked with it; the reason
+      // (reviewer names, labels) always goes through the rules
+      blockers: original.blockers.map((b, i) => {
+        const ref = `B${i + 1}`;
+        const target = [...original.mergeRequests, ...original.issues].find(
+          (t) => t.web_url === b.web_url
+        );
+        const reason = redact(b.reason, ref, "reason")!;
+        if (target && denial(config, target)) {
+          return { title: `(${RESTRICTED})`, web_url: "", reason };
+        }
+        return {
+          title: redact(b.title, ref, "title")!,
+          web_url: config.stripUrls ? "" : b.web_url,
+          reason,
+        };
+      }),
+    };
+  }
+
+  const note = redact(input.note, "note", "note");
+
+  const total =
+    report.restricted.length + report.strippedDescriptions.length + report.redacted.length;
+  if (total) {
+    console.log(
+      `🙈 Redacted for the model: ${report.restricted.length} restricted item(s), ${report.strippedDescriptions.length} description(s) stripped, ${report.redacted.length} replacement(s)`
+    );
+  }
+  return { items, openWork, note, report };
+}
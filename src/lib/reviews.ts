@@ -0,0 +1,180 @@
+import {
+  GitlabClient,
+  GitlabProject,
+  mrProjectLabel,
+  projectPath,
+} from "./gitlab";
+import { TeamMember } from "./roster";
+import type { ReviewDetail } from "./sources/types";
+import { DAY_MS, excerpt } from "./util";
+
+const MAX_REVIEW_EXCERPTS = 3;
+const REVIEW_EXCERPT_CHARS = 160;
+
+export type ReviewWindow = { since: Date; until: Date };
+
+export type ReviewedMergeRequest = {
+  /** The MR as returned by the GitLab API */
+  mr: any;
+  project: string;
+  review: ReviewDetail;
+};
+
+/**
+ * MRs the member may have reviewed: assigned as reviewer and updated in the
+ * window, plus every MR they commented on or approved in the window (their
+ * own events), keyed "projectId!iid"
+ */
+async function candidateMergeRequests(
+  gitlab: GitlabClient,
+  member: TeamMember,
+  window: ReviewWindow
+) {
+  const candidates = new Map<string, { projectId: string; iid: string; mr?: any }>();
+  const add = (projectId: unknown, iid: unknown, mr?: any) => {
+    if (projectId === undefined || iid === undefined) return;
+    const key = `${projectId}!${iid}`;
+    if (!candidates.has(key) || mr) {
+      candidates.set(key, { projectId: String(projectId), iid: String(iid), mr });
+    }
+  };
+
+  // Each lookup is optional: a failed one is recorded and the others still count
+  const list = async (call: string, path: string, params: Record<string, unknown>) => {
+    try {
+      return await gitlab.getAll(path, params);
+    } catch (err: any) {
+      gitlab.recordFailure(call, err);
+      return [];
+    }
+  };
+
+  const assigned = await list("MRs assigned for review", `/merge_requests`, {
+    reviewer_id: member.gitlabUserId,
+    updated_after: window.since.toISOString(),
+    updated_before: window.until.toISOString(),
+    scope: "all",
+  });
+  for (const mr of assigned) add(mr.project_id, mr.iid, mr);
+
+  // `after`/`before` are exclusive calendar dates; refine on created_at
+  const inWindow = (e: any) => {
+    const at = new Date(e.created_at);
+    return at >= window.since && at < window.until;
+  };
+  const range = {
+    after: new Date(window.since.getTime() - DAY_MS).toISOString().slice(0, 10),
+    before: new Date(window.until.getTime() + DAY_MS).toISOString().slice(0, 10),
+  };
+
+  const commented = await list("Comment events", `/users/${member.gitlabUserId}/events`, {
+    action: "commented",
+    ...range,
+  });
+  for (const e of commented.filter(inWindow)) {
+    if (e.note?.noteable_type === "MergeRequest") {
+      add(e.project_id, e.note.noteable_iid);
+    }
+  }
+
+  const approved = await list("Approval events", `/users/${member.gitlabUserId}/events`, {
+    action: "approved",
+    ...range,
+  });
+  for (const e of approved.filter(inWindow)) {
+    if (e.target_type === "MergeRequest") add(e.project_id, e.target_iid);
+  }
+
+  return Array.from(candidates.values());
+}
+
+/**
+ * Latest verdict from the member's own system notes in the window
+ * ("approved this merge request", "unapproved ...", "requested changes")
+ */
+function verdictFromSystemNotes(notes: any[]) {
+  let verdict: ReviewDetail["status"] | undefined;
+  for (const note of notes) {
+    const body = String(note.body || "").toLowerCase();
+    if (body.startsWith("approved this merge request")) verdict = "approved";
+    else if (body.startsWith("unapproved this merge request")) verdict = undefined;
+    else if (body.includes("requested changes")) verdict = "requested_changes";
+  }
+  return verdict;
+}
+
+/**
+ * Step 4: MRs the member actually reviewed in the window, built from the
+ * notes (comments, diff notes, replies) and approval / requested-changes
+ * events they authored in it.
+ *
+ * Being listed as a reviewer is not enough (no note or verdict in the window
+ * = not reviewed), and no reviewer assignment is needed (a comment counts).
+ * The member's own MRs are skipped: comments there are replies, not reviews.
+ */
+export async function collectReviews(
+  gitlab: GitlabClient,
+  member: TeamMember,
+  projectsById: Map<string, GitlabProject>,
+  window: ReviewWindow
+): Promise<ReviewedMergeRequest[]> {
+  const candidates = await candidateMergeRequests(gitlab, member, window);
+  console.log(`👀 Review candidates: ${candidates.length}`);
+
+  const reviews: ReviewedMergeRequest[] = [];
+  const isMine = (note: any) => {
+    const at = new Date(note.created_at);
+    return (
+      String(note.author?.id) === String(member.gitlabUserId) &&
+      at >= window.since &&
+      at < window.until
+    );
+  };
+
+  for (const { projectId, iid, mr: listed } of candidates) {
+    const mrPath = `${projectPath(projectId)}/merge_requests/${iid}`;
+    try {
+      const mr = listed ?? (await gitlab.get(mrPath));
+      if (String(mr.author?.id) === String(member.gitlabUserId)) continue;
+
+      const notes = await gitlab.getAll(`${mrPath}/notes`, {
+        sort: "asc",
+        order_by: "created_at",
+      });
+      const mine = notes.filter(isMine);
+      const comments = mine.filter((n: any) => !n.system);
+      const verdict = verdictFromSystemNotes(mine.filter((n: any) => n.system));
+      if (!comments.length && !verdict) continue;
+
+      reviews.push({
+        mr,
+        project: mrProjectLabel(mr, projectsById),
+        review: {
+          comments: comments.length,
+          status: verdict ?? "commented",
+          excerpts: comments
+            .slice(0, MAX_REVIEW_EXCERPTS)
+            .map((n: any) => excerpt(String(n.body || ""), REVIEW_EXCERPT_CHARS)),
+          at: mine[mine.length - 1].created_at,
+        },
+      });
+    } catch (err: any) {
+      gitlab.recordFailure(`Review of ${projectId}!${iid}`, err);
+    }
+  }
+
+  return reviews;
+}
+
+/** "approved · 3 comments" */
+export function describeReview(review: ReviewDetail) {
+  const status = {
+    approved: "approved",
+    requested_changes: "requested changes",
+    commented: "commented",
+  }[review.status];
+  const comments = review.comments
+    ? ` · ${review.comments} comment${review.comments === 1 ? "" : "s"}`
+    : "";
+  return `${status}${comments}`;
+}
@@ -0,0 +1,214 @@
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+import { getConfig } from "./config";
+import { EodSchedule, parseSchedule } from "./schedule";
+import {
+  DEFAULT_TIMEZONE,
+  isValidTimezone,
+  parseWorkingHours,
+  WorkingHours,
+} from "./window";
+
+/**
+ * A single team member the EOD is generated for.
+ *
+ * `authors` holds every commit author email / name the member pushes with
+ * (work laptop, personal email, GitLab username, ...).
+ * `timezone` is an IANA zone; `workingHours` (optional) bounds their day.
+ * The GitHub / Jira / Linear identities are optional; a source only runs for
+ * members who have one (see sources/). `schedule` (optional) enables the
+ * automatic daily EOD via /slack-eod/cron.
+ */
+export type TeamMember = {
+  id: string;
+  name?: string;
+  gitlabUserId: string;
+  authors: string[];
+  slackUserId: string;
+  timezone: string;
+  workingHours?: WorkingHours;
+  githubLogin?: string;
+  jiraAccountId?: string;
+  linearUserId?: string;
+  schedule?: EodSchedule;
+};
+
+function parseTimezone(value: unknown, where: string) {
+  const timezone = value ? String(value) : DEFAULT_TIMEZONE;
+  if (!isValidTimezone(timezone)) {
+    throw new Error(`Invalid ${where}: unknown timezone "${timezone}"`);
+  }
+  return timezone;
+}
+
+function optional(value: unknown) {
+  return value === undefined || value === null || value === ""
+    ? undefined
+    : String(value).trim();
+}
+
+function parseHours(value: unknown, where: string) {
+  if (!value) return undefined;
+  try {
+    return typeof value === "string"
+      ? parseWorkingHours(value)
+      : parseWorkingHours(`${(value as any).start}-${(value as any).end}`);
+  } catch (err: any) {
+    throw new Error(`Invalid ${where}: ${err.message}`);
+  }
+}
+
+/**
+ * Member built from the legacy single-user env vars
+ * (GITLAB_USER_ID, GITLAB_EMAIL / GITLAB_USERNAME, SLACK_USER_ID, plus
+ * GITHUB_USERNAME / JIRA_ACCOUNT_ID / LINEAR_USER_ID for the other sources)
+ */
+export function memberFromEnv(): TeamMember {
+  const { gitlab, slack } = getConfig();
+  // Optional in config when a roster is set, but this member needs them
+  if (!gitlab.userId || !slack.userId) {
+    throw new Error(
+      "GITLAB_USER_ID and SLACK_USER_ID must be set for the single-user routes (or pick a roster member with user=…)"
+    );
+  }
+  const authors = [gitlab.email, gitlab.username].filter((a): a is string =>
+    Boolean(a)
+  );
+
+  return {
+    id: gitlab.username || gitlab.userId,
+    gitlabUserId: gitlab.userId,
+    // Original behavior: email wins over username as the author filter
+    authors: authors.slice(0, 1),
+    slackUserId: slack.userId,
+    timezone: parseTimezone(process.env.EOD_TIMEZONE, "EOD_TIMEZONE"),
+    workingHours: parseHours(process.env.EOD_WORKING_HOURS, "EOD_WORKING_HOURS"),
+    githubLogin: optional(process.env.GITHUB_USERNAME),
+    jiraAccountId: optional(process.env.JIRA_ACCOUNT_ID),
+    linearUserId: optional(process.env.LINEAR_USER_ID),
+    schedule: parseSchedule(process.env.EOD_SCHEDULE_TIME, "EOD_SCHEDULE_TIME"),
+  };
+}
+
+function normalizeMember(raw: any, index: number): TeamMember {
+  const where = `roster member #${index + 1}`;
+  if (!raw || typeof raw !== "object") {
+    throw new Error(`Invalid ${where}: expected an object`);
+  }
+
+  const gitlabUserId = raw.gitlabUserId ?? raw.gitlab_user_id;
+  const slackUserId = raw.slackUserId ?? raw.slack_user_id;
+  if (gitlabUserId === undefined || gitlabUserId === null || gitlabUserId === "") {
+    throw new Error(`Invalid ${where}: "gitlabUserId" is required`);
+  }
+  if (!slackUserId) {
+    throw new Error(`Invalid ${where}: "slackUserId" is required`);
+  }
+
+  const rawAuthors = raw.authors ?? raw.emails ?? [];
+  const authors = (Array.isArray(rawAuthors) ? rawAuthors : [rawAuthors])
+    .map((a: unknown) => String(a).trim())
+    .filter(Boolean);
+  if (!authors.length) {
+    throw new Error(`Invalid ${where}: at least one entry in "authors" is required`);
+  }
+
+  return {
+    id: String(raw.id ?? authors[0]),
+    name: raw.name ? String(raw.name) : undefined,
+    gitlabUserId: String(gitlabUserId),
+    authors,
+    slackUserId: String(slackUserId),
+    // Members inherit the deployment-wide defaults unless they override them
+    timezone: parseTimezone(raw.timezone ?? process.env.EOD_TIMEZONE, where),
+    workingHours: parseHours(
+      raw.workingHours ?? raw.working_hours ?? process.env.EOD_WORKING_HOURS,
+      where
+    ),
+    githubLogin: optional(raw.githubLogin ?? raw.github_login ?? raw.github),
+    jiraAccountId: optional(raw.jiraAccountId ?? raw.jira_account_id),
+    linearUserId: optional(raw.linearUserId ?? raw.linear_user_id),
+    // `schedule: false` opts a member out of the team-wide EOD_SCHEDULE_TIME
+    schedule: parseSchedule(raw.schedule ?? process.env.EOD_SCHEDULE_TIME, where),
+  };
+}
+
+/**
+ * Load the team roster.
+ *
+ * Source (first match wins):
+ * - EOD_ROSTER: inline JSON (handy on serverless where files are awkward)
+ * - EOD_ROSTER_PATH: path to a .json / .yaml / .yml file
+ * - Fallback: a single member built from the legacy env vars
+ *
+ * The file may either be a list of members or `{ members: [...] }`.
+ */
+export function loadRoster(): TeamMember[] {
+  const inline = process.env.EOD_ROSTER;
+  const rosterPath = process.env.EOD_ROSTER_PATH;
+
+  let parsed: any;
+  if (inline) {
+    parsed = JSON.parse(inline);
+  } else if (rosterPath) {
+    const fullPath = path.resolve(process.cwd(), rosterPath);
+    const content = fs.readFileSync(fullPath, "utf8");
+    parsed = /\.ya?ml$/i.test(fullPath) ? YAML.parse(content) : JSON.parse(content);
+  } else {
+    return [memberFromEnv()];
+  }
+
+  const list = Array.isArray(parsed) ? parsed : parsed?.members;
+  if (!Array.isArray(list) || !list.length) {
+    throw new Error("Roster is empty: expected a list of members");
+  }
+
+  const members = list.map(normalizeMember);
+  const ids = new Set<string>();
+  for (const m of members) {
+    if (ids.has(m.id)) throw new Error(`Duplicate roster member id: ${m.id}`);
+    ids.add(m.id);
+  }
+  return members;
+}
+
+/** Ephemeral answer to a Slack user with no roster entry */
+export const NOT_IN_ROSTER =
+  "You're not in the EOD roster yet — ask an admin to add your Slack id.";
+
+/**
+ * Find a roster entry by id, GitLab user id, Slack id or any author alias
+ */
+export function findMember(
+  roster: TeamMember[],
+  key: string
+): TeamMember | undefined {
+  const needle = key.trim().toLowerCase();
+  return roster.find(
+    (m) =>
+      m.id.toLowerCase() === needle ||
+      m.gitlabUserId === key ||
+      m.slackUserId === key ||
+      m.authors.some((a) => a.toLowerCase() === needle)
+  );
+}
+
+/**
+ * Roster lookup for the Slack routes, which answer in Slack instead of
+ * failing the request: `error` is the message to show when the user has no
+ * entry or the roster can't be loaded (bad EOD_ROSTER, missing file, ...)
+ */
+export function findSlackRequester(
+  slackUserId: string
+): { member: TeamMember; error?: undefined } | { member?: undefined; error: string } {
+  try {
+    const member = findMember(loadRoster(), slackUserId);
+    return member ? { member } : { error: NOT_IN_ROSTER };
+  } catch (err: any) {
+    console.error("❌ Could not load the roster:", err.message);
+    return {
+      error: `❌ Could not load the EOD roster (${err.message}) — ask an admin to check it.`,
+    };
+  }
+}
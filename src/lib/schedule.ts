@@ -0,0 +1,148 @@
+import type { TeamMember } from "./roster";
+import { localDay, weekday } from "./window";
+import { splitList } from "./util";
+
+/**
+ * When a member's EOD is sent automatically (by /slack-eod/cron).
+ *
+ * - time: local "HH:MM" in the member's timezone; the EOD goes out on the
+ *   first cron tick at or after it
+ * - weekdays: 0 = Sunday … 6 = Saturday (default Monday–Friday)
+ * - daysOff: YYYY-MM-DD days or "from..to" ranges (leave, personal holidays)
+ * - channels / thread: delivery, as on /slack-eod (default: their DM)
+ */
+export type EodSchedule = {
+  time: string;
+  weekdays: number[];
+  daysOff: string[];
+  channels?: string[];
+  thread?: boolean;
+};
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+function weekdayIndex(name: string) {
+  const index = WEEKDAYS.indexOf(name.slice(0, 3).toLowerCase());
+  if (index < 0) throw new Error(`unknown weekday "${name}"`);
+  return index;
+}
+
+/**
+ * "mon-fri", "mon,wed,fri" or ["mon", "tue"] → weekday numbers
+ */
+export function parseWeekdays(value: unknown): number[] {
+  const days = new Set<number>();
+  for (const part of splitList(value)) {
+    const [from, to] = part.split(/\s*[-–]\s*/);
+    if (!to) {
+      days.add(weekdayIndex(from));
+      continue;
+    }
+    // Ranges may wrap the week ("fri-mon")
+    for (let d = weekdayIndex(from); ; d = (d + 1) % 7) {
+      days.add(d);
+      if (d === weekdayIndex(to)) break;
+    }
+  }
+  return Array.from(days).sort((a, b) => a - b);
+}
+
+/** YYYY-MM-DD days and "from..to" ranges */
+function parseDays(value: unknown, what: string) {
+  const days = splitList(value);
+  for (const day of days) {
+    if (!day.split("..").every((d) => DAY_PATTERN.test(d))) {
+      throw new Error(`invalid ${what} "${day}": expected YYYY-MM-DD or YYYY-MM-DD..YYYY-MM-DD`);
+    }
+  }
+  return days;
+}
+
+/**
+ * Schedule from a roster entry / env. Accepts "18:30" as shorthand for
+ * `{ time: "18:30" }`; an object without a time uses EOD_SCHEDULE_TIME.
+ * Returns undefined for no schedule (or `false`).
+ */
+export function parseSchedule(raw: unknown, where: string): EodSchedule | undefined {
+  if (!raw) return undefined;
+  const value: any = typeof raw === "string" ? { time: raw } : raw;
+
+  try {
+    const time = String(value.time ?? process.env.EOD_SCHEDULE_TIME ?? "").trim();
+    if (!TIME_PATTERN.test(time)) {
+      throw new Error(`time "${time}" is not HH:MM`);
+    }
+    return {
+      time,
+      weekdays: parseWeekdays(
+        value.weekdays ?? value.days ?? process.env.EOD_SCHEDULE_DAYS ?? "mon-fri"
+      ),
+      daysOff: parseDays(value.daysOff ?? value.days_off, "day off"),
+      channels: value.channels ? splitList(value.channels) : undefined,
+      thread: value.thread === true || undefined,
+    };
+  } catch (err: any) {
+    throw new Error(`Invalid ${where} schedule: ${err.message}`);
+  }
+}
+
+/** Team-wide holidays: EOD_HOLIDAYS (YYYY-MM-DD days / ranges, comma-separated) */
+export function holidaysFromEnv() {
+  return parseDays(process.env.EOD_HOLIDAYS, "EOD_HOLIDAYS entry");
+}
+
+function matchesDay(day: string, entries: string[]) {
+  return entries.some((entry) => {
+    const [from, to = from] = entry.split("..");
+    return day >= from && day <= to;
+  });
+}
+
+export type ScheduleDecision = {
+  user: string;
+  /** The member's local day the decision is about */
+  day: string;
+  due: boolean;
+  /** Why not (or "due") */
+  reason: string;
+};
+
+/**
+ * Is `member` due for their scheduled EOD at `now`? Being due only means the
+ * local time has passed their slot today; the history store makes sure it
+ * still goes out once per day however often the cron fires.
+ */
+export function scheduleDecision(
+  member: TeamMember,
+  now: Date,
+  holidays: string[] = holidaysFromEnv()
+): ScheduleDecision {
+  const day = localDay(now, member.timezone);
+  const decide = (due: boolean, reason: string) => ({
+    user: member.id,
+    day,
+    due,
+    reason,
+  });
+
+  const schedule = member.schedule;
+  if (!schedule) return decide(false, "no schedule");
+  if (!schedule.weekdays.includes(weekday(day))) {
+    return decide(false, `not a working day (${WEEKDAYS[weekday(day)]})`);
+  }
+  if (matchesDay(day, holidays)) return decide(false, "holiday");
+  if (matchesDay(day, schedule.daysOff)) return decide(false, "day off");
+
+  const localTime = now.toLocaleTimeString("en-GB", {
+    timeZone: member.timezone,
+    hourCycle: "h23",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  const slot = schedule.time.padStart(5, "0");
+  if (localTime < slot) return decide(false, `scheduled for ${slot}, now ${localTime}`);
+
+  return decide(true, "due");
+}
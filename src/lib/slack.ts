@@ -0,0 +1,407 @@
+import crypto from "crypto";
+import { WebClient } from "@slack/web-api";
+import { context } from "./blocks";
+import { getConfig } from "./config";
+import { http } from "./http";
+import { splitList } from "./util";
+
+let client: WebClient | undefined;
+
+/**
+ * The Web API methods the EOD uses; tests pass a fake (see clients.ts)
+ */
+export type SlackApi = {
+  auth: Pick<WebClient["auth"], "test">;
+  chat: Pick<WebClient["chat"], "postMessage" | "update" | "getPermalink">;
+  conversations: Pick<WebClient["conversations"], "open" | "list" | "history">;
+};
+
+/**
+ * Created on first use, from the validated config. The SDK waits out rate
+ * limits itself; its default retry policy (up to ~30 minutes) is cut down.
+ */
+export function slackClient(): WebClient {
+  client ??= new WebClient(getConfig().slack.botToken, {
+    timeout: 15_000,
+    retryConfig: { retries: 3 },
+  });
+  return client;
+}
+
+/** Action / callback ids shared by the slash command and interactivity routes */
+export const EOD_ACTIONS = {
+  post: "eod_post",
+  edit: "eod_edit",
+  regenerate: "eod_regenerate",
+  editModal: "eod_edit_modal",
+  summaryBlock: "eod_summary",
+  summaryInput: "eod_summary_input",
+} as const;
+
+/**
+ * State carried in button values / modal metadata. Slack caps a button value
+ * at 2000 chars, so a longer summary is trimmed to fit and marked
+ * `truncated` (the note is kept short); "Post" refuses a truncated summary.
+ */
+export type EodActionState = {
+  date?: string;
+  note?: string;
+  summary: string;
+  truncated?: boolean;
+};
+
+const MAX_NOTE_LENGTH = 500;
+
+const MAX_VALUE_LENGTH = 2000;
+
+export function encodeActionState(input: EodActionState) {
+  const state = { ...input, note: input.note?.slice(0, MAX_NOTE_LENGTH) };
+  let summary = state.summary;
+  let value = JSON.stringify(state);
+  while (value.length > MAX_VALUE_LENGTH && summary.length) {
+    summary = summary.slice(0, -Math.max(1, value.length - MAX_VALUE_LENGTH));
+    value = JSON.stringify({ ...state, summary: `${summary}…`, truncated: true });
+  }
+  return value;
+}
+
+export function decodeActionState(value?: string): EodActionState {
+  try {
+    const parsed = JSON.parse(value || "{}");
+    return {
+      date: parsed.date || undefined,
+      note: parsed.note || undefined,
+      summary: String(parsed.summary || ""),
+      truncated: parsed.truncated === true || undefined,
+    };
+  } catch {
+    return { summary: "" };
+  }
+}
+
+/**
+ * Verify a request really came from Slack (v0 signing secret scheme).
+ * Rejects requests older than 5 minutes to block replays.
+ */
+export function verifySlackSignature(headers: Headers, rawBody: string) {
+  const { signingSecret } = getConfig().slack;
+  if (!signingSecret) {
+    console.error("❌ SLACK_SIGNING_SECRET is not set; rejecting Slack request");
+    return false;
+  }
+
+  const timestamp = headers.get("x-slack-request-timestamp");
+  const signature = headers.get("x-slack-signature");
+  if (!timestamp || !signature) return false;
+
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > 60 * 5) return false;
+
+  const expected =
+    "v0=" +
+    crypto
+      .createHmac("sha256", signingSecret)
+      .update(`v0:${timestamp}:${rawBody}`)
+      .digest("hex");
+
+  const a = Buffer.from(expected);
+  const b = Buffer.from(signature);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Reply through a slash command / interaction `response_url`
+ */
+export async function respond(responseUrl: string, payload: Record<string, any>) {
+  await http.post(responseUrl, payload);
+}
+
+/**
+ * Ephemeral preview shown to the requester before anything is posted
+ */
+export function buildPreviewMessage(state: EodActionState) {
+  const value = encodeActionState(state);
+  const { standupChannel } = getConfig().slack;
+  const postLabel = standupChannel
+    ? `Post to ${standupChannel.startsWith("#") ? "" : "#"}${standupChannel}`
+    : "Post to #standup";
+
+  return {
+    response_type: "ephemeral",
+    replace_original: true,
+    text: state.summary,
+    blocks: [
+      {
+        type: "context",
+        elements: [
+          { type: "mrkdwn", text: "👀 *Preview* — only you can see this" },
+        ],
+      },
+      {
+        type: "section",
+        block_id: EOD_ACTIONS.summaryBlock,
+        text: { type: "mrkdwn", text: state.summary.slice(0, 3000) },
+      },
+      {
+        type: "actions",
+        elements: [
+          {
+            type: "button",
+            style: "primary",
+            action_id: EOD_ACTIONS.post,
+            text: { type: "plain_text", text: postLabel },
+            value,
+          },
+          {
+            type: "button",
+            action_id: EOD_ACTIONS.edit,
+            text: { type: "plain_text", text: "Edit" },
+            value,
+          },
+          {
+            type: "button",
+            action_id: EOD_ACTIONS.regenerate,
+            text: { type: "plain_text", text: "Regenerate" },
+            value,
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Modal prefilled with the summary. The response_url travels in
+ * private_metadata so the submission can update the ephemeral preview.
+ */
+export function buildEditModal(state: EodActionState, responseUrl?: string) {
+  return {
+    type: "modal" as const,
+    callback_id: EOD_ACTIONS.editModal,
+    private_metadata: JSON.stringify({ date: state.date, note: state.note, responseUrl }),
+    title: { type: "plain_text" as const, text: "Edit EOD" },
+    submit: { type: "plain_text" as const, text: "Post" },
+    close: { type: "plain_text" as const, text: "Cancel" },
+    blocks: [
+      ...(state.truncated
+        ? [context("✂️ Your EOD was cut short to fit in Slack; check the end before posting")]
+        : []),
+      {
+        type: "input",
+        block_id: EOD_ACTIONS.summaryBlock,
+        label: { type: "plain_text" as const, text: "Summary" },
+        element: {
+          type: "plain_text_input",
+          action_id: EOD_ACTIONS.summaryInput,
+          multiline: true,
+          initial_value: state.summary.slice(0, 3000),
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Where an EOD goes.
+ *
+ * - channels: channel ids/names (default: the member's DM)
+ * - thread: reply under a per-day parent message the bot creates or finds
+ * - update: existing posts (from a previous run's `deliveries`) to
+ *   `chat.update` instead of posting again
+ */
+export type DeliveryOptions = {
+  channels?: string[];
+  thread?: boolean;
+  update?: Array<{ channel: string; ts: string }>;
+};
+
+export type Delivery = {
+  channel: string;
+  ts: string;
+  threadTs?: string;
+  permalink?: string;
+  updated: boolean;
+};
+
+/**
+ * Delivery options from a query string:
+ * ?channel=C1,#standup&thread=true&ts=1700000000.000100
+ * (`ts` updates an existing post and needs at most one channel; none = DM)
+ */
+export function deliveryFromQuery(params: URLSearchParams): DeliveryOptions {
+  const channels = params.getAll("channel").flatMap((c) => splitList(c));
+  const thread = ["1", "true"].includes(params.get("thread") || "");
+  const ts = params.get("ts");
+  const update =
+    ts && channels.length <= 1
+      ? [{ channel: channels[0] ?? "", ts }]
+      : undefined;
+  return { channels, thread, update };
+}
+
+/**
+ * Delivery options from a JSON body:
+ * { "channels": ["C1"], "thread": true, "update": [{ "channel": "C1", "ts": "…" }] }
+ * `update` accepts the `deliveries` array of a previous response as-is.
+ */
+export function deliveryFromBody(body: any): DeliveryOptions {
+  const rawChannels = body.channels ?? body.channel ?? [];
+  const channels = (Array.isArray(rawChannels) ? rawChannels : [rawChannels])
+    .flatMap((c: unknown) => splitList(String(c)));
+  const update = Array.isArray(body.update)
+    ? body.update
+        .filter((u: any) => u?.channel && u?.ts)
+        .map((u: any) => ({ channel: String(u.channel), ts: String(u.ts) }))
+    : undefined;
+  return { channels, thread: body.thread === true, update };
+}
+
+/** Parent message text for the per-day standup thread */
+export function standupThreadTitle(day: string) {
+  return `🧵 Daily standup — ${day}`;
+}
+
+// Per client, so a fake in tests never sees the real bot's id
+const botUserIds = new WeakMap<SlackApi, string | undefined>();
+
+async function getBotUserId(slack: SlackApi) {
+  if (!botUserIds.has(slack)) {
+    const auth = await slack.auth.test();
+    botUserIds.set(slack, auth.user_id);
+  }
+  return botUserIds.get(slack);
+}
+
+const CHANNEL_ID_PATTERN = /^[CGD][A-Z0-9]{6,}$/;
+
+/**
+ * History lookups need a channel id; resolve "#name" / "name" to one
+ */
+async function resolveChannelId(slack: SlackApi, channel: string) {
+  if (CHANNEL_ID_PATTERN.test(channel)) return channel;
+
+  const name = channel.replace(/^#/, "");
+  let cursor: string | undefined;
+  do {
+    const res = await slack.conversations.list({
+      types: "public_channel,private_channel",
+      exclude_archived: true,
+      limit: 1000,
+      cursor,
+    });
+    const match = res.channels?.find((c) => c.name === name);
+    if (match?.id) return match.id;
+    cursor = res.response_metadata?.next_cursor || undefined;
+  } while (cursor);
+
+  throw new Error(`Slack channel not found: ${channel}`);
+}
+
+/**
+ * Find the bot's parent message for `day` (YYYY-MM-DD) in a channel, or post it
+ */
+async function findOrCreateDayThread(slack: SlackApi, channelId: string, day: string) {
+  const title = standupThreadTitle(day);
+  const me = await getBotUserId(slack);
+
+  // Parents are posted on the day itself or the morning after; look back from
+  // the day before so re-runs for older dates still find their thread
+  const oldest = String(Date.parse(`${day}T00:00:00Z`) / 1000 - 24 * 60 * 60);
+  let cursor: string | undefined;
+  let pages = 0;
+  do {
+    const res = await slack.conversations.history({
+      channel: channelId,
+      oldest,
+      limit: 200,
+      cursor,
+    });
+    const parent = res.messages?.find((m) => m.user === me && m.text === title);
+    if (parent?.ts) return parent.ts;
+    cursor = res.response_metadata?.next_cursor || undefined;
+  } while (cursor && ++pages < 5);
+
+  const created = await slack.chat.postMessage({ channel: channelId, text: title });
+  return created.ts!;
+}
+
+/** `text` is always sent: it is the notification / no-blocks fallback */
+export type EodMessage = { text: string; blocks?: any[] };
+
+/**
+ * Deliver an EOD to each target, returning the resulting ts/permalink so a
+ * re-run can pass them back as `update`. Posts outside the member's own DM are
+ * prefixed with a mention so the channel knows whose EOD it is.
+ */
+export async function deliverMessage(
+  slackUserId: string,
+  message: EodMessage,
+  day: string,
+  options: DeliveryOptions = {},
+  slack: SlackApi = slackClient()
+): Promise<Delivery[]> {
+  const channels = options.channels?.length ? options.channels : [slackUserId];
+  const deliveries: Delivery[] = [];
+
+  for (const target of channels) {
+    const isDM = target === slackUserId;
+    const text = isDM ? message.text : `<@${slackUserId}>\n${message.text}`;
+    const blocks =
+      message.blocks && !isDM
+        ? [context(`👤 <@${slackUserId}>`), ...message.blocks]
+        : message.blocks;
+    // Stored deliveries hold the "C…" id chat.postMessage returns, so
+    // channel targets are matched by id
+    const channelId = isDM ? target : await resolveChannelId(slack, target);
+    // A DM comes back as a "D…" channel id (or no channel at all from ?ts=);
+    // `update` entries given by hand may still name the channel
+    const existing = options.update?.find((u) => {
+      if (isDM) return !u.channel || u.channel.startsWith("D") || u.channel === target;
+      return CHANNEL_ID_PATTERN.test(u.channel)
+        ? u.channel === channelId
+        : u.channel.replace(/^#/, "") === target.replace(/^#/, "");
+    });
+
+    let delivery: Delivery;
+    if (existing) {
+      const updateChannel = CHANNEL_ID_PATTERN.test(existing.channel)
+        ? existing.channel
+        : isDM
+          ? (await slack.conversations.open({ users: slackUserId })).channel!.id!
+          : channelId;
+      const res = await slack.chat.update({
+        channel: updateChannel,
+        ts: existing.ts,
+        text,
+        blocks,
+      });
+      delivery = { channel: res.channel!, ts: res.ts!, updated: true };
+    } else {
+      const threadTs =
+        options.thread && !isDM
+          ? await findOrCreateDayThread(slack, channelId, day)
+          : undefined;
+      const res = await slack.chat.postMessage({
+        channel: channelId,
+        text,
+        blocks,
+        thread_ts: threadTs,
+      });
+      delivery = { channel: res.channel!, ts: res.ts!, threadTs, updated: false };
+    }
+
+    try {
+      const link = await slack.chat.getPermalink({
+        channel: delivery.channel,
+        message_ts: delivery.ts,
+      });
+      delivery.permalink = link.permalink;
+    } catch (err: any) {
+      console.warn(`⚠️ Could not fetch permalink for ${target}:`, err.message || err);
+    }
+
+    deliveries.push(delivery);
+  }
+
+  return deliveries;
+}
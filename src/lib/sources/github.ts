@@ -0,0 +1,174 @@
+import { getConfig } from "../config";
+import type { TruncatedCall } from "../gitlab";
+import { http } from "../http";
+import { MR_TRANSITIONS, transitionsFromTimestamps } from "../lifecycle";
+import {
+  ActivityItem,
+  ActivityKind,
+  ActivitySource,
+  SourceWindow,
+} from "./types";
+
+/** The search API never returns more than 1000 results (10 pages of 100) */
+const GITHUB_MAX_PAGES = 10;
+
+/**
+ * Search qualifiers limiting results to GITHUB_REPOS (owner/repo) and
+ * GITHUB_ORGS; with neither, everything the token can see is searched
+ */
+function scopeQualifiers() {
+  const { repos, orgs } = getConfig().github;
+  return [...repos.map((r) => `repo:${r}`), ...orgs.map((o) => `org:${o}`)].join(" ");
+}
+
+/** ISO range qualifier value; the search syntax rejects milliseconds */
+function isoRange(since: Date, until: Date) {
+  const iso = (d: Date) => d.toISOString().replace(/\.\d{3}Z$/, "Z");
+  return `${iso(since)}..${iso(until)}`;
+}
+
+/** "owner/repo" from a search hit's repository_url / repository */
+function repoName(item: any) {
+  if (item.repository?.full_name) return item.repository.full_name;
+  return String(item.repository_url || "").replace(/^.*\/repos\//, "");
+}
+
+/**
+ * Run one search query to completion (or the page cap)
+ */
+async function search(
+  type: "commits" | "issues",
+  q: string,
+  truncated: TruncatedCall[]
+) {
+  const { api, token } = getConfig().github;
+  const items: any[] = [];
+  for (let page = 1; ; page++) {
+    const res = await http.get(`${api}/search/${type}`, {
+      headers: {
+        Accept: "application/vnd.github+json",
+        Authorization: `Bearer ${token}`,
+      },
+      params: { q, per_page: 100, page },
+    });
+    items.push(...(res.data.items || []));
+
+    const total = Math.min(res.data.total_count ?? 0, 1000);
+    if (items.length >= total || !res.data.items?.length) break;
+    if (page >= GITHUB_MAX_PAGES) {
+      truncated.push({ path: `/search/${type}?q=${q}`, pages: page });
+      break;
+    }
+  }
+  return items;
+}
+
+function toPullRequest(
+  pr: any,
+  kind: ActivityKind,
+  window: SourceWindow
+): ActivityItem {
+  const mergedAt = pr.pull_request?.merged_at ?? null;
+  const transitions = transitionsFromTimestamps(
+    { created_at: pr.created_at, merged_at: mergedAt, closed_at: pr.closed_at },
+    window
+  );
+  return {
+    source: "github",
+    kind,
+    id: String(pr.number),
+    project: repoName(pr),
+    title: pr.title,
+    web_url: pr.html_url,
+    description: pr.body?.trim() || undefined,
+    state: mergedAt ? "merged" : pr.state,
+    created_at: pr.created_at,
+    updated_at: pr.updated_at,
+    merged_at: mergedAt,
+    ...(kind === "merge_request" && {
+      transitions: transitions.size
+        ? MR_TRANSITIONS.filter((t) => transitions.has(t))
+        : ["updated"],
+    }),
+  };
+}
+
+/**
+ * GitHub (via the search API, config: GITHUB_TOKEN, optional GITHUB_REPOS /
+ * GITHUB_ORGS / GITHUB_API_URL): commits, authored PRs, reviewed PRs and
+ * assigned issues updated in the window.
+ *
+ * Commit search only covers default branches, so unmerged branch work shows
+ * up through its PR instead.
+ */
+export const githubSource: ActivitySource = {
+  name: "github",
+
+  enabled: (member) => Boolean(getConfig().github.token && member.githubLogin),
+
+  async collect(member, window) {
+    const login = member.githubLogin!;
+    const scope = scopeQualifiers();
+    const range = isoRange(window.since, window.until);
+    const truncated: TruncatedCall[] = [];
+    const items: ActivityItem[] = [];
+
+    const commits = await search(
+      "commits",
+      `author:${login} author-date:${range} ${scope}`,
+      truncated
+    );
+    items.push(
+      ...commits.map(
+        (c: any): ActivityItem => ({
+          source: "github",
+          kind: "commit",
+          id: c.sha,
+          project: repoName(c),
+          title: String(c.commit?.message || "").split("\n")[0],
+          web_url: c.html_url,
+          branch: c.repository?.default_branch,
+          created_at: c.commit?.author?.date,
+        })
+      )
+    );
+
+    const authored = await search(
+      "issues",
+      `type:pr author:${login} updated:${range} ${scope}`,
+      truncated
+    );
+    items.push(...authored.map((pr) => toPullRequest(pr, "merge_request", window)));
+
+    const reviewed = await search(
+      "issues",
+      `type:pr reviewed-by:${login} -author:${login} updated:${range} ${scope}`,
+      truncated
+    );
+    items.push(...reviewed.map((pr) => toPullRequest(pr, "review", window)));
+
+    const issues = await search(
+      "issues",
+      `type:issue assignee:${login} updated:${range} ${scope}`,
+      truncated
+    );
+    items.push(
+      ...issues.map(
+        (issue: any): ActivityItem => ({
+          source: "github",
+          kind: "issue",
+          id: String(issue.number),
+          project: repoName(issue),
+          title: issue.title,
+          web_url: issue.html_url,
+          state: issue.state,
+          created_at: issue.created_at,
+          updated_at: issue.updated_at,
+        })
+      )
+    );
+
+    console.log(`🐙 GitHub: ${items.length} item(s) for ${login}`);
+    return { items, truncated, maxPages: GITHUB_MAX_PAGES };
+  },
+};
@@ -0,0 +1,171 @@
+import { collectCommits, commitStrategyFromEnv } from "../commits";
+import { projectPath, resolveProjects } from "../gitlab";
+import { classifyMergeRequest } from "../lifecycle";
+import { collectPipelines, pipelinesEnabled } from "../pipelines";
+import { collectReviews, describeReview } from "../reviews";
+import { ActivityItem, ActivitySource } from "./types";
+
+function toMergeRequest(
+  mr: any,
+  project: string,
+  kind: "merge_request" | "review"
+): ActivityItem {
+  return {
+    source: "gitlab",
+    kind,
+    id: String(mr.iid ?? mr.id),
+    project,
+    title: mr.title,
+    web_url: mr.web_url,
+    branch: mr.source_branch,
+    description: mr.description?.trim() || undefined,
+    state: mr.state,
+    created_at: mr.created_at,
+    updated_at: mr.updated_at,
+    merged_at: mr.merged_at,
+  };
+}
+
+/**
+ * GitLab: commits (branch scan or push events, per GITLAB_COMMIT_STRATEGY),
+ * MRs authored in the tracked projects (see lifecycle.ts) and MRs reviewed instance-wide (see
+ * reviews.ts for what counts as a review), plus CI pipelines and deployments
+ */
+export const gitlabSource: ActivitySource = {
+  name: "gitlab",
+
+  enabled: (member) => Boolean(member.gitlabUserId),
+
+  async collect(member, window, clients) {
+    const sinceIso = window.since.toISOString();
+    const untilIso = window.until.toISOString();
+    let stepStarted = Date.now();
+    const step = () => {
+      const ms = Date.now() - stepStarted;
+      stepStarted = Date.now();
+      return ms;
+    };
+    const timings = { projects: 0, commits: 0, mergeRequests: 0, reviews: 0, pipelines: 0 };
+
+    // -------------------------------------------------------------------------
+    // 0. Resolve which projects to scan
+    // -------------------------------------------------------------------------
+    const gitlab = clients.gitlab();
+    const projects = await resolveProjects(gitlab);
+    timings.projects = step();
+    const projectsById = new Map(projects.map((p) => [p.id, p]));
+    console.log(
+      `📦 Scanning ${projects.length} project(s): ${projects
+        .map((p) => p.name)
+        .join(", ")}`
+    );
+
+    // -------------------------------------------------------------------------
+    // 1–2. Collect commits authored by the member in the time window
+    // -------------------------------------------------------------------------
+    const strategy = commitStrategyFromEnv();
+    const { commits, scan } = await collectCommits(
+      strategy,
+      gitlab,
+      member,
+      projects,
+      window
+    );
+    timings.commits = step();
+
+    console.log(
+      `✅ Found ${commits.length} commits authored by ${member.id} in window (${strategy} strategy).`
+    );
+
+    const items: ActivityItem[] = commits.map((c) => ({
+      source: "gitlab",
+      kind: "commit",
+      id: c.id,
+      project: c.project,
+      title: c.title,
+      web_url: c.web_url,
+      branch: c.branch,
+      created_at: c.created_at,
+    }));
+
+    // -------------------------------------------------------------------------
+    // 3. Fetch MRs authored by the member and updated in window (WITH
+    //    DESCRIPTIONS), classified by what actually happened to them
+    // -------------------------------------------------------------------------
+    const mrBranches = new Map<string, Set<string>>();
+    for (const project of projects) {
+      try {
+        const authoredMRs = await gitlab.getAll(
+          `${projectPath(project.id)}/merge_requests`,
+          {
+            author_id: member.gitlabUserId,
+            updated_after: sinceIso,
+            updated_before: untilIso,
+          }
+        );
+        for (const mr of authoredMRs) {
+          if (mr.source_branch) {
+            if (!mrBranches.has(project.id)) mrBranches.set(project.id, new Set());
+            mrBranches.get(project.id)!.add(mr.source_branch);
+          }
+          const { transitions, detail } = await classifyMergeRequest(
+            gitlab,
+            project.id,
+            mr,
+            window
+          );
+          items.push({
+            ...toMergeRequest(mr, project.name, "merge_request"),
+            transitions,
+            detail,
+          });
+        }
+      } catch (err: any) {
+        gitlab.recordFailure(`Authored MRs of ${project.name}`, err);
+      }
+    }
+    timings.mergeRequests = step();
+
+    // -------------------------------------------------------------------------
+    // 4. MRs reviewed in window, from the member's own notes and approvals
+    //    (instance-wide, labelled by project)
+    // -------------------------------------------------------------------------
+    try {
+      const reviews = await collectReviews(gitlab, member, projectsById, window);
+      items.push(
+        ...reviews.map(({ mr, project, review }) => ({
+          ...toMergeRequest(mr, project, "review"),
+          review,
+          detail: describeReview(review),
+        }))
+      );
+    } catch (err: any) {
+      gitlab.recordFailure("Reviewed MRs", err);
+    }
+    timings.reviews = step();
+
+    // -------------------------------------------------------------------------
+    // 4b. CI: pipelines (triggered by the member / on their MR branches) and
+    //     the deployments they produced
+    // -------------------------------------------------------------------------
+    if (pipelinesEnabled()) {
+      try {
+        items.push(
+          ...(await collectPipelines(gitlab, member, projects, mrBranches, window))
+        );
+      } catch (err: any) {
+        gitlab.recordFailure("Pipelines", err);
+      }
+    }
+    timings.pipelines = step();
+
+    return {
+      items,
+      truncated: gitlab.truncated,
+      failures: gitlab.failures,
+      maxPages: gitlab.maxPages,
+      apiCalls: gitlab.stats.calls,
+      gitlab: { projects, commits: scan, timings },
+    };
+  },
+};
@@ -0,0 +1,200 @@
+import { defaultClients, EodClients } from "../clients";
+import { getConfig } from "../config";
+import { FailedCall, TruncatedCall } from "../gitlab";
+import type { TeamMember } from "../roster";
+import { githubSource } from "./github";
+import { gitlabSource } from "./gitlab";
+import { jiraSource } from "./jira";
+import { linearSource } from "./linear";
+import {
+  ActivityItem,
+  ActivitySource,
+  SourceDiagnostics,
+  SourceName,
+  SourceWindow,
+} from "./types";
+import { plural, splitList } from "../util";
+
+export * from "./types";
+
+const SOURCES: Record<SourceName, ActivitySource> = {
+  gitlab: gitlabSource,
+  github: githubSource,
+  jira: jiraSource,
+  linear: linearSource,
+};
+
+/**
+ * Sources to collect from: EOD_SOURCES (comma-separated, e.g.
+ * "gitlab,github,jira"), default GitLab only
+ */
+export function sourcesFromEnv(): ActivitySource[] {
+  const names = splitList(process.env.EOD_SOURCES || "gitlab").map((s) => s.toLowerCase());
+
+  return Array.from(new Set(names)).map((name) => {
+    const source = SOURCES[name as SourceName];
+    if (!source) {
+      throw new Error(
+        `Unknown activity source "${name}" in EOD_SOURCES (expected ${Object.keys(
+          SOURCES
+        ).join(", ")})`
+      );
+    }
+    return source;
+  });
+}
+
+export type SourceError = { source: SourceName; error: string };
+
+/** Everything collected for one window, across sources */
+export type CollectedActivity = {
+  items: ActivityItem[];
+  pagination?: {
+    maxPages: number;
+    truncated: Array<TruncatedCall & { source: SourceName }>;
+  };
+  /** Sources that failed outright; the report is built from the others */
+  sourceErrors?: SourceError[];
+  /** Individual calls that failed inside otherwise working sources */
+  failures?: Array<FailedCall & { source: SourceName }>;
+  /** Per-source timings, call counts and what was scanned */
+  sources?: SourceDiagnostics[];
+  /** Daily EODs: why open work (Next / Blockers) could not be collected */
+  openWorkError?: string;
+};
+
+/**
+ * Dedupe by source + kind + project + id (forks/mirrors may share ids, and
+ * an MR can legitimately be both authored and reviewed)
+ */
+function dedupeItems(items: ActivityItem[]) {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const key = `${item.source}:${item.kind}:${item.project}:${item.id}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Run every configured source the member has an identity on. One source
+ * failing is recorded in `sourceErrors`; all of them failing throws.
+ * `sources` in the result says how each run went.
+ */
+export async function collectFromSources(
+  member: TeamMember,
+  window: SourceWindow,
+  sources: ActivitySource[] = sourcesFromEnv(),
+  clients: EodClients = defaultClients
+): Promise<CollectedActivity> {
+  const active = sources.filter((s) => s.enabled(member));
+  if (!active.length) {
+    throw new Error(
+      `No activity source configured for ${member.id} (EOD_SOURCES=${sources
+        .map((s) => s.name)
+        .join(",")})`
+    );
+  }
+
+  const items: ActivityItem[] = [];
+  const truncated: Array<TruncatedCall & { source: SourceName }> = [];
+  const failures: Array<FailedCall & { source: SourceName }> = [];
+  const sourceErrors: SourceError[] = [];
+  const diagnostics: SourceDiagnostics[] = [];
+  let lastError: any;
+
+  for (const source of active) {
+    const started = Date.now();
+    try {
+      const result = await source.collect(member, window, clients);
+      diagnostics.push({
+        source: source.name,
+        ok: true,
+        durationMs: Date.now() - started,
+        items: result.items.length,
+        apiCalls: result.apiCalls,
+        ...(result.gitlab && { gitlab: result.gitlab }),
+      });
+      items.push(...result.items);
+      truncated.push(
+        ...(result.truncated ?? []).map((t) => ({ ...t, source: source.name }))
+      );
+      failures.push(
+        ...(result.failures ?? []).map((f) => ({ ...f, source: source.name }))
+      );
+    } catch (err: any) {
+      lastError = err;
+      sourceErrors.push({ source: source.name, error: err.message || String(err) });
+      diagnostics.push({
+        source: source.name,
+        ok: false,
+        durationMs: Date.now() - started,
+        items: 0,
+        error: err.message || String(err),
+      });
+      console.warn(`⚠️ ${source.name} activity failed:`, err.message || err);
+    }
+  }
+
+  if (sourceErrors.length === active.length) throw lastError;
+
+  // Report any list call that stopped at its pagination safety cap
+  if (truncated.length) {
+    console.warn(
+      `⚠️ ${truncated.length} list call(s) hit their page cap; EOD may be incomplete`
+    );
+  }
+
+  return {
+    items: dedupeItems(items),
+    ...(truncated.length && {
+      pagination: { maxPages: getConfig().gitlab.maxPages, truncated },
+    }),
+    ...(sourceErrors.length && { sourceErrors }),
+    ...(failures.length && { failures }),
+    sources: diagnostics,
+  };
+}
+
+/**
+ * "incomplete: 1 source failed, 3 requests failed" when anything was lost on
+ * the way (failed sources, failed calls, page caps), else undefined
+ */
+export function incompleteNotice(activity: CollectedActivity) {
+  const parts = [
+    activity.sourceErrors?.length &&
+      `${plural(activity.sourceErrors.length, "source")} failed`,
+    activity.failures?.length && `${plural(activity.failures.length, "request")} failed`,
+    activity.pagination?.truncated.length &&
+      `${plural(activity.pagination.truncated.length, "list")} cut at the page cap`,
+    activity.openWorkError && "open work unavailable",
+  ].filter(Boolean);
+  return parts.length ? `incomplete: ${parts.join(", ")}` : undefined;
+}
+
+/**
+ * Items split by kind, in the order the EOD lists them
+ */
+export function groupActivity(items: ActivityItem[]) {
+  const of = (kind: ActivityItem["kind"]) => items.filter((i) => i.kind === kind);
+  return {
+    commits: of("commit"),
+    mrsCreated: of("merge_request"),
+    mrsReviewed: of("review"),
+    issues: of("issue"),
+    comments: of("comment"),
+    pipelines: of("pipeline"),
+    deployments: of("deployment"),
+  };
+}
+
+/**
+ * When an item "happened", for bucketing by day: merge time for merged MRs,
+ * the last review note (else last update) for reviews, else its own timestamp
+ */
+export function itemTime(item: ActivityItem) {
+  if (item.kind === "merge_request") return item.merged_at || item.updated_at;
+  if (item.kind === "review") return item.review?.at || item.updated_at;
+  return item.created_at || item.updated_at;
+}
@@ -0,0 +1,138 @@
+import { getConfig } from "../config";
+import type { TruncatedCall } from "../gitlab";
+import { http } from "../http";
+import { ActivityItem, ActivitySource, SourceWindow } from "./types";
+import { DAY_MS, excerpt } from "../util";
+
+const COMMENT_EXCERPT_CHARS = 200;
+
+/**
+ * Issues the member touched around the window. JQL dates are whole days in
+ * the Jira user's own timezone, so the range is padded by a day on each side
+ * and individual changes are filtered on their exact timestamps below.
+ */
+function buildJql(accountId: string, window: SourceWindow) {
+  const day = (d: Date) => d.toISOString().slice(0, 10);
+  const from = day(new Date(window.since.getTime() - DAY_MS));
+  const to = day(new Date(window.until.getTime() + DAY_MS));
+  const { projects } = getConfig().jira;
+
+  return [
+    `issuekey IN updatedBy(${JSON.stringify(accountId)}, "${from}", "${to}")`,
+    ...(projects.length
+      ? [`project IN (${projects.map((p) => JSON.stringify(p)).join(", ")})`]
+      : []),
+  ].join(" AND ");
+}
+
+/** Plain text of an Atlassian Document Format (API v3) comment body */
+function adfText(node: any): string {
+  if (!node) return "";
+  if (typeof node === "string") return node;
+  if (node.type === "text") return node.text || "";
+  const parts = (node.content || []).map(adfText);
+  return node.type === "paragraph" ? `${parts.join("")}\n` : parts.join("");
+}
+
+/**
+ * Jira Cloud (config: JIRA_BASE_URL, JIRA_EMAIL, JIRA_API_TOKEN, optional
+ * JIRA_PROJECTS / JIRA_MAX_PAGES): status transitions the member made (one
+ * item per issue, e.g. "To Do → In Progress → In Review") and comments they
+ * left.
+ */
+export const jiraSource: ActivitySource = {
+  name: "jira",
+
+  enabled: (member) => {
+    const { baseUrl, email, apiToken } = getConfig().jira;
+    return Boolean(baseUrl && email && apiToken && member.jiraAccountId);
+  },
+
+  async collect(member, window) {
+    const { baseUrl, email, apiToken, maxPages } = getConfig().jira;
+    const accountId = member.jiraAccountId!;
+    const jql = buildJql(accountId, window);
+    const inWindow = (at: string) => {
+      const date = new Date(at);
+      return date >= window.since && date < window.until;
+    };
+
+    const issues: any[] = [];
+    const truncated: TruncatedCall[] = [];
+    let nextPageToken: string | undefined;
+    let pages = 0;
+    do {
+      const res = await http.get(`${baseUrl}/rest/api/3/search/jql`, {
+        auth: { username: email!, password: apiToken! },
+        params: {
+          jql,
+          fields: "summary,status,project,comment,created,updated",
+          expand: "changelog",
+          maxResults: 100,
+          nextPageToken,
+        },
+      });
+      pages++;
+      issues.push(...(res.data.issues || []));
+      nextPageToken = res.data.isLast ? undefined : res.data.nextPageToken;
+      if (nextPageToken && pages >= maxPages) {
+        truncated.push({ path: "/rest/api/3/search/jql", pages });
+        break;
+      }
+    } while (nextPageToken);
+
+    const items: ActivityItem[] = [];
+    for (const issue of issues) {
+      const { fields } = issue;
+      const web_url = `${baseUrl}/browse/${issue.key}`;
+      const project = fields.project?.key || issue.key.split("-")[0];
+      const title = `${issue.key} ${fields.summary}`;
+
+      const transitions = (issue.changelog?.histories || [])
+        .filter((h: any) => h.author?.accountId === accountId && inWindow(h.created))
+        .sort((a: any, b: any) => a.created.localeCompare(b.created))
+        .flatMap((h: any) =>
+          (h.items || [])
+            .filter((i: any) => i.field === "status")
+            .map((i: any) => ({ at: h.created, from: i.fromString, to: i.toString }))
+        );
+      if (transitions.length) {
+        items.push({
+          source: "jira",
+          kind: "issue",
+          id: issue.key,
+          project,
+          title,
+          web_url,
+          state: fields.status?.name,
+          created_at: transitions[transitions.length - 1].at,
+          updated_at: fields.updated,
+          detail: [transitions[0].from, ...transitions.map((t: any) => t.to)].join(
+            " → "
+          ),
+        });
+      }
+
+      for (const comment of fields.comment?.comments || []) {
+        if (comment.author?.accountId !== accountId || !inWindow(comment.created)) {
+          continue;
+        }
+        items.push({
+          source: "jira",
+          kind: "comment",
+          id: `${issue.key}#${comment.id}`,
+          project,
+          title,
+          web_url: `${web_url}?focusedCommentId=${comment.id}`,
+          created_at: comment.created,
+          detail: excerpt(adfText(comment.body), COMMENT_EXCERPT_CHARS),
+        });
+      }
+    }
+
+    console.log(
+      `🎫 Jira: ${items.length} item(s) from ${issues.length} issue(s) for ${member.id}`
+    );
+    return { items, truncated, maxPages };
+  },
+};
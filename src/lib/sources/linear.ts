@@ -0,0 +1,119 @@
+import { getConfig } from "../config";
+import type { TruncatedCall } from "../gitlab";
+import { http } from "../http";
+import { ActivityItem, ActivitySource } from "./types";
+import { excerpt } from "../util";
+
+const LINEAR_API = "https://api.linear.app/graphql";
+
+const LINEAR_MAX_PAGES = 10;
+const COMMENT_EXCERPT_CHARS = 200;
+
+/**
+ * Every node of one connection (100 per page, following `endCursor`) up to
+ * the page cap, which is recorded in `truncated`
+ */
+async function paginate(
+  connection: "issues" | "comments",
+  filter: string,
+  fields: string,
+  truncated: TruncatedCall[]
+) {
+  const { apiKey } = getConfig().linear;
+  const nodes: any[] = [];
+  let after: string | null = null;
+  for (let page = 1; ; page++) {
+    const query = `query($after: String) {
+      ${connection}(first: 100, after: $after, filter: ${filter}) {
+        nodes { ${fields} }
+        pageInfo { hasNextPage endCursor }
+      }
+    }`;
+    const res = await http.post<any>(
+      LINEAR_API,
+      { query, variables: { after } },
+      { headers: { Authorization: apiKey! } }
+    );
+    if (res.data.errors?.length) {
+      throw new Error(`Linear: ${res.data.errors[0].message}`);
+    }
+    const result: { nodes: any[]; pageInfo: { hasNextPage: boolean; endCursor: string } } =
+      res.data.data[connection];
+    nodes.push(...result.nodes);
+
+    if (!result.pageInfo.hasNextPage) break;
+    if (page >= LINEAR_MAX_PAGES) {
+      truncated.push({ path: connection, pages: page });
+      break;
+    }
+    after = result.pageInfo.endCursor;
+  }
+  return nodes;
+}
+
+/**
+ * Linear (config: LINEAR_API_KEY): issues assigned to the member that changed
+ * in the window, and comments they wrote
+ */
+export const linearSource: ActivitySource = {
+  name: "linear",
+
+  enabled: (member) => Boolean(getConfig().linear.apiKey && member.linearUserId),
+
+  async collect(member, window) {
+    const user = JSON.stringify(member.linearUserId);
+    const since = JSON.stringify(window.since.toISOString());
+    const until = JSON.stringify(window.until.toISOString());
+
+    const truncated: TruncatedCall[] = [];
+    const [issues, comments] = await Promise.all([
+      paginate(
+        "issues",
+        `{ assignee: { id: { eq: ${user} } }, updatedAt: { gte: ${since}, lt: ${until} } }`,
+        "identifier title description url state { name } team { key } createdAt updatedAt completedAt",
+        truncated
+      ),
+      paginate(
+        "comments",
+        `{ user: { id: { eq: ${user} } }, createdAt: { gte: ${since}, lt: ${until} } }`,
+        "id body url createdAt issue { identifier title team { key } }",
+        truncated
+      ),
+    ]);
+
+    const items: ActivityItem[] = [
+      ...issues.map(
+        (issue: any): ActivityItem => ({
+          source: "linear",
+          kind: "issue",
+          id: issue.identifier,
+          project: issue.team?.key || issue.identifier.split("-")[0],
+          title: `${issue.identifier} ${issue.title}`,
+          web_url: issue.url,
+          description: issue.description?.trim() || undefined,
+          state: issue.state?.name,
+          created_at: issue.createdAt,
+          updated_at: issue.updatedAt,
+          detail: issue.state?.name,
+        })
+      ),
+      ...comments
+        .filter((c: any) => c.issue)
+        .map(
+          (c: any): ActivityItem => ({
+            source: "linear",
+            kind: "comment",
+            id: c.id,
+            project: c.issue.team?.key || c.issue.identifier.split("-")[0],
+            title: `${c.issue.identifier} ${c.issue.title}`,
+            web_url: c.url,
+            created_at: c.createdAt,
+            detail: excerpt(c.body || "", COMMENT_EXCERPT_CHARS),
+          })
+        ),
+    ];
+
+    console.log(`📐 Linear: ${items.length} item(s) for ${member.id}`);
+    return { items, truncated, maxPages: LINEAR_MAX_PAGES };
+  },
+};
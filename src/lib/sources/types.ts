@@ -0,0 +1,135 @@
+import type { EodClients } from "../clients";
+import type { CommitScan } from "../commits";
+import type { FailedCall, GitlabProject, TruncatedCall } from "../gitlab";
+import type { TeamMember } from "../roster";
+
+export type SourceName = "gitlab" | "github" | "jira" | "linear";
+
+/**
+ * What a piece of activity is, independent of where it came from:
+ * - commit: a commit authored by the member
+ * - merge_request: an MR / PR the member authored
+ * - review: an MR / PR the member reviewed
+ * - issue: a ticket the member moved or owns (Jira, Linear, GitHub issues)
+ * - comment: a comment the member left on a ticket or PR
+ * - pipeline: a CI pipeline they triggered or that ran on their MR branches
+ * - deployment: a successful deployment made by them or those pipelines
+ */
+export type ActivityKind =
+  | "commit"
+  | "merge_request"
+  | "review"
+  | "issue"
+  | "comment"
+  | "pipeline"
+  | "deployment";
+
+/**
+ * What the member actually did on an MR / PR they reviewed in the window
+ */
+export type ReviewDetail = {
+  /** Comments (incl. diff notes and replies) the member wrote in the window */
+  comments: number;
+  /** Latest verdict in the window; "commented" when they only left notes */
+  status: "approved" | "requested_changes" | "commented";
+  /** Short excerpts of those comments, oldest first */
+  excerpts: string[];
+  /** Time of the member's last note / verdict in the window */
+  at?: string;
+};
+
+/**
+ * What happened to an authored MR / PR inside the window. "updated" means
+ * it changed, but none of the other transitions apply (labels, others' notes).
+ */
+export type MrTransition =
+  | "opened"
+  | "ready"
+  | "merged"
+  | "closed"
+  | "reopened"
+  | "pipeline"
+  | "pushed"
+  | "updated";
+
+/**
+ * One normalized activity item. Field names follow the GitLab payloads the
+ * EOD was first built on; providers fill what they have.
+ */
+export type ActivityItem = {
+  source: SourceName;
+  kind: ActivityKind;
+  /** Unique within source + project (commit sha, MR iid, issue key, ...) */
+  id: string;
+  /** Short project / repo label shown next to the item */
+  project: string;
+  title: string;
+  web_url: string;
+  /** Commits, pipelines and deployments: the ref they ran on; MRs: source branch */
+  branch?: string;
+  description?: string;
+  /** MR / issue state as the source reports it ("merged", "In Progress", ...) */
+  state?: string;
+  created_at?: string;
+  updated_at?: string;
+  merged_at?: string | null;
+  /** One line of extra context (status transition, comment excerpt, ...) */
+  detail?: string;
+  /** Authored MRs / PRs only */
+  transitions?: MrTransition[];
+  /** Reviews only */
+  review?: ReviewDetail;
+};
+
+export type SourceWindow = { since: Date; until: Date };
+
+/** What the GitLab source looked at and how long each step took (ms) */
+export type GitlabDiagnostics = {
+  projects: GitlabProject[];
+  commits: CommitScan;
+  timings: {
+    projects: number;
+    commits: number;
+    mergeRequests: number;
+    reviews: number;
+    pipelines: number;
+  };
+};
+
+export type SourceResult = {
+  items: ActivityItem[];
+  /** List calls that hit the pagination cap (the items are a floor) */
+  truncated?: TruncatedCall[];
+  /** Calls skipped after failing (the items are missing whatever they held) */
+  failures?: FailedCall[];
+  maxPages?: number;
+  /** HTTP calls made, where the source counts them */
+  apiCalls?: number;
+  gitlab?: GitlabDiagnostics;
+};
+
+/** How one source's run went (see collectFromSources), for /debug */
+export type SourceDiagnostics = {
+  source: SourceName;
+  ok: boolean;
+  durationMs: number;
+  items: number;
+  apiCalls?: number;
+  error?: string;
+  gitlab?: GitlabDiagnostics;
+};
+
+/**
+ * An activity provider. `enabled` says whether the member has an identity on
+ * this source (e.g. a GitHub login); disabled sources are skipped silently.
+ * `clients` carries the GitLab client factory (see clients.ts).
+ */
+export type ActivitySource = {
+  name: SourceName;
+  enabled(member: TeamMember): boolean;
+  collect(
+    member: TeamMember,
+    window: SourceWindow,
+    clients: EodClients
+  ): Promise<SourceResult>;
+};
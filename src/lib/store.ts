@@ -0,0 +1,255 @@
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { Delivery } from "./slack";
+
+export type EodRunStatus = "pending" | "sent" | "failed";
+
+/**
+ * One recorded EOD / digest run. `id` is the idempotency key: the same
+ * member + report kind + day (or range) always maps to the same record.
+ */
+export type EodRun = {
+  id: string;
+  user: string;
+  kind: "daily" | "digest";
+  day: string;
+  since: string;
+  until: string;
+  status: EodRunStatus;
+  activity?: string;
+  summary?: string;
+  deliveries: Delivery[];
+  error?: string;
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type EodRunFilter = {
+  user?: string;
+  /** Inclusive YYYY-MM-DD bounds on `day` */
+  from?: string;
+  to?: string;
+  limit?: number;
+};
+
+/**
+ * Storage backend for run history. Swap implementations via getStore().
+ */
+export type EodStore = {
+  get(id: string): Promise<EodRun | undefined>;
+  save(run: EodRun): Promise<void>;
+  list(filter?: EodRunFilter): Promise<EodRun[]>;
+  /**
+   * Take run `id` for the caller, atomically across every process sharing
+   * the store: false while another claim younger than `ttlMs` holds it.
+   * Older claims are assumed to belong to a crashed run and are taken over.
+   */
+  claim(id: string, ttlMs: number): Promise<boolean>;
+  release(id: string): Promise<void>;
+};
+
+/**
+ * JSON-on-disk store: one file per run under `<file>.runs/`, each written
+ * atomically (temp file + rename), so processes sharing the location never
+ * rewrite each other's runs. Claims are lock files created exclusively in
+ * `<file>.locks/`, holding the owner's token; only the owner removes one.
+ * A history written by older versions as a single `<file>` is still read.
+ */
+export function createJsonFileStore(filePath: string): EodStore {
+  const runsDir = `${filePath}.runs`;
+  const locksDir = `${filePath}.locks`;
+  /** Tokens of the claims this store holds, by run id */
+  const owned = new Map<string, string>();
+
+  function fileName(id: string) {
+    return crypto.createHash("sha1").update(id).digest("hex");
+  }
+
+  function readJson(file: string) {
+    try {
+      return JSON.parse(fs.readFileSync(file, "utf8"));
+    } catch (err: any) {
+      if (err.code === "ENOENT") return undefined;
+      throw new Error(`Could not read EOD history ${file}: ${err.message}`);
+    }
+  }
+
+  function legacyRuns(): Record<string, EodRun> {
+    return readJson(filePath) ?? {};
+  }
+
+  function readRuns(): EodRun[] {
+    let names: string[];
+    try {
+      names = fs.readdirSync(runsDir).filter((n) => n.endsWith(".json"));
+    } catch (err: any) {
+      if (err.code === "ENOENT") return Object.values(legacyRuns());
+      throw err;
+    }
+    const runs = legacyRuns();
+    for (const name of names) {
+      const run: EodRun | undefined = readJson(path.join(runsDir, name));
+      if (run) runs[run.id] = run;
+    }
+    return Object.values(runs);
+  }
+
+  /** Who holds a claim: its token and when it was taken (mtime while being written) */
+  function readLock(lock: string): { token?: string; at: number } | undefined {
+    try {
+      const content = fs.readFileSync(lock, "utf8");
+      const parsed = JSON.parse(content);
+      return { token: parsed.token, at: Date.parse(parsed.at) };
+    } catch (err: any) {
+      if (err.code === "ENOENT") return undefined;
+      try {
+        return { at: fs.statSync(lock).mtimeMs };
+      } catch {
+        return undefined;
+      }
+    }
+  }
+
+  /**
+   * Remove `lock` only while it still holds `token`. It is moved aside first
+   * (rename is atomic, so one process gets it); a lock that turns out to
+   * belong to someone else is linked back.
+   */
+  function removeLock(lock: string, token: string | undefined) {
+    const aside = `${lock}.${crypto.randomUUID()}`;
+    try {
+      fs.renameSync(lock, aside);
+    } catch (err: any) {
+      if (err.code === "ENOENT") return false;
+      throw err;
+    }
+    const mine = readLock(aside)?.token === token;
+    if (!mine) {
+      try {
+        fs.linkSync(aside, lock);
+      } catch (err: any) {
+        if (err.code !== "EEXIST") throw err;
+      }
+    }
+    fs.rmSync(aside, { force: true });
+    return mine;
+  }
+
+  return {
+    async get(id) {
+      return readJson(path.join(runsDir, `${fileName(id)}.json`)) ?? legacyRuns()[id];
+    },
+
+    async save(run) {
+      fs.mkdirSync(runsDir, { recursive: true });
+      const file = path.join(runsDir, `${fileName(run.id)}.json`);
+      const tmp = `${file}.${process.pid}.${crypto.randomUUID()}.tmp`;
+      fs.writeFileSync(tmp, JSON.stringify(run, null, 2), { flag: "wx" });
+      fs.renameSync(tmp, file);
+    },
+
+    async list(filter = {}) {
+      return readRuns()
+        .filter(
+          (r) =>
+            (!filter.user || r.user === filter.user) &&
+            (!filter.from || r.day >= filter.from) &&
+            (!filter.to || r.day <= filter.to)
+        )
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .slice(0, filter.limit ?? 100);
+    },
+
+    async claim(id, ttlMs) {
+      const lock = path.join(locksDir, `${fileName(id)}.lock`);
+      fs.mkdirSync(locksDir, { recursive: true });
+      // Second pass only after removing a stale claim
+      for (let attempt = 0; attempt < 2; attempt++) {
+        const token = crypto.randomUUID();
+        try {
+          fs.writeFileSync(
+            lock,
+            JSON.stringify({ id, pid: process.pid, token, at: new Date().toISOString() }),
+            { flag: "wx" }
+          );
+          owned.set(id, token);
+          return true;
+        } catch (err: any) {
+          if (err.code !== "EEXIST") throw err;
+        }
+        const holder = readLock(lock);
+        // Released in the meantime: free to take
+        if (!holder) continue;
+        if (Date.now() - holder.at < ttlMs) return false;
+        console.warn(`⚠️ Taking over a stale claim on ${id}`);
+        // Another process took it over first
+        if (!removeLock(lock, holder.token)) return false;
+      }
+      return false;
+    },
+
+    async release(id) {
+      const token = owned.get(id);
+      if (!token) return;
+      owned.delete(id);
+      const lock = path.join(locksDir, `${fileName(id)}.lock`);
+      if (!removeLock(lock, token)) {
+        console.warn(`⚠️ The claim on ${id} was taken over by another run; leaving it`);
+      }
+    },
+  };
+}
+
+const DEFAULT_STORE_PATH = ".data/eod-history.json";
+
+function writableDir(dir: string) {
+  try {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.accessSync(dir, fs.constants.W_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The history file: EOD_STORE_PATH (which must be writable), else
+ * .data/eod-history.json, else the temp dir when the deployment is read-only
+ * (Vercel and other serverless bundles). The temp copy is per instance and
+ * lost on cold starts, so repeat-run skipping there is best effort.
+ *
+ * Several processes may share one location (workers, instances on a shared
+ * volume): runs are separate files and claims check their owner. Instances
+ * that don't share a filesystem each keep their own history.
+ */
+export function storePath(env: Record<string, string | undefined> = process.env) {
+  const configured = env.EOD_STORE_PATH?.trim();
+  if (configured) {
+    const filePath = path.resolve(process.cwd(), configured);
+    if (!writableDir(path.dirname(filePath))) {
+      throw new Error(
+        `EOD_STORE_PATH: ${path.dirname(filePath)} is not writable; point it at a writable location (e.g. /tmp/eod-history.json on serverless hosts)`
+      );
+    }
+    return filePath;
+  }
+
+  const filePath = path.resolve(process.cwd(), DEFAULT_STORE_PATH);
+  if (writableDir(path.dirname(filePath))) return filePath;
+  const fallback = path.join(os.tmpdir(), "eod-history.json");
+  console.warn(
+    `⚠️ ${path.dirname(filePath)} is read-only; keeping EOD history in ${fallback} (per instance; set EOD_STORE_PATH to shared storage)`
+  );
+  return fallback;
+}
+
+let store: EodStore | undefined;
+
+/** Process-wide store (see storePath for where it lives) */
+export function getStore(): EodStore {
+  if (!store) store = createJsonFileStore(storePath());
+  return store;
+}
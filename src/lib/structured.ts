@@ -0,0 +1,239 @@
+import type { Blocker, OpenWork } from "./openwork";
+import type { ActivityItem, ActivityKind } from "./sources/types";
+
+/**
+ * Structured EOD output: the model answers with JSON (topics → bullets, each
+ * citing the refs of the activity it describes), which is validated against
+ * the collected activity before anything is rendered.
+ *
+ * Refs are short ids printed in the prompt next to each item: C3 (commit),
+ * MR1, R2 (review), I1 (issue), N1 (comment), P1 (pipeline), D1
+ * (deployment), W1 (open MR / issue) and B1 (signal blocker). "note" cites
+ * the developer's note.
+ */
+
+const REF_PREFIXES: Record<ActivityKind, string> = {
+  commit: "C",
+  merge_request: "MR",
+  review: "R",
+  issue: "I",
+  comment: "N",
+  pipeline: "P",
+  deployment: "D",
+};
+
+export const NOTE_REF = "note";
+
+/** Something a bullet can cite and link to */
+export type RefTarget = { title: string; web_url: string };
+
+/** Which refs each part of the summary may cite */
+export type RefIndex = {
+  /** Done: activity in the window */
+  activity: Map<string, ActivityItem>;
+  /** Next: open MRs / issues */
+  openWork: Map<string, RefTarget>;
+  /** Blockers: signal-backed blockers */
+  blockers: Map<string, Blocker>;
+};
+
+/**
+ * Ref per activity item, numbered per kind in collection order (the activity
+ * text and the validator both derive refs from here, so they always agree)
+ */
+export function activityRefs(items: ActivityItem[]) {
+  const counters = new Map<string, number>();
+  const refs = new Map<ActivityItem, string>();
+  for (const item of items) {
+    const prefix = REF_PREFIXES[item.kind];
+    const n = (counters.get(prefix) ?? 0) + 1;
+    counters.set(prefix, n);
+    refs.set(item, `${prefix}${n}`);
+  }
+  return refs;
+}
+
+/** W1… for open MRs then issues, B1… for blockers */
+export function openWorkRefs(work: OpenWork) {
+  return {
+    openWork: [...work.mergeRequests, ...work.issues].map(
+      (target, i): [string, RefTarget] => [`W${i + 1}`, target]
+    ),
+    blockers: work.blockers.map((b, i): [string, Blocker] => [`B${i + 1}`, b]),
+  };
+}
+
+export function buildRefIndex(items: ActivityItem[], openWork?: OpenWork): RefIndex {
+  const open = openWork ? openWorkRefs(openWork) : { openWork: [], blockers: [] };
+  return {
+    activity: new Map(
+      Array.from(activityRefs(items), ([item, ref]) => [ref, item] as const)
+    ),
+    openWork: new Map(open.openWork),
+    blockers: new Map(open.blockers),
+  };
+}
+
+export type SummaryBullet = { text: string; refs: string[] };
+export type SummaryTopic = { title: string; bullets: SummaryBullet[] };
+export type StructuredSummary = {
+  done: SummaryTopic[];
+  next: SummaryBullet[];
+  blockers: SummaryBullet[];
+};
+
+export type RejectedBullet = SummaryBullet & {
+  section: keyof StructuredSummary;
+  reason: string;
+};
+
+/** Appended to every daily prompt; the style decides tone, this the shape */
+export const STRUCTURED_OUTPUT_INSTRUCTIONS = `Respond with JSON only (no code fences, no text around it) in exactly this shape:
+{"done":[{"title":"Main topic","bullets":[{"text":"What was done","refs":["MR1","C2"]}]}],"next":[{"text":"Planned item","refs":["W1"]}],"blockers":[{"text":"Blocker and why","refs":["B1"]}]}
+
+Citation rules (bullets that break them are discarded):
+- Every "done" bullet cites the refs (C#, MR#, R#, I#, N#, P#, D#) of the activity it describes.
+- Every "next" bullet cites open work refs (W#) or "${NOTE_REF}" when it comes from the developer's note.
+- Every "blockers" bullet cites blocker refs (B#) or "${NOTE_REF}".
+- Only cite refs that appear above. Use empty lists when a section has nothing.`;
+
+/** Model output sometimes arrives in a ```json fence despite instructions */
+function extractJson(text: string) {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = (fenced ? fenced[1] : text).trim();
+  const start = body.indexOf("{");
+  const end = body.lastIndexOf("}");
+  return start >= 0 && end > start ? body.slice(start, end + 1) : body;
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+function checkBullet(value: unknown, where: string): SummaryBullet {
+  const bullet = value as any;
+  if (!bullet || typeof bullet !== "object" || !isString(bullet.text)) {
+    throw new Error(`${where}: expected { "text": string, "refs": string[] }`);
+  }
+  if (!Array.isArray(bullet.refs) || !bullet.refs.every(isString)) {
+    throw new Error(`${where}.refs: expected an array of ref strings`);
+  }
+  return { text: bullet.text.trim(), refs: bullet.refs.map((r: string) => r.trim()) };
+}
+
+function checkList<T>(value: unknown, where: string, check: (v: unknown, w: string) => T) {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new Error(`${where}: expected an array`);
+  return value.map((v, i) => check(v, `${where}[${i}]`));
+}
+
+/**
+ * Schema check: throws with the first problem found (fed back to the model
+ * on retry)
+ */
+function checkShape(value: unknown): StructuredSummary {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("expected a JSON object with done / next / blockers");
+  }
+  const raw = value as any;
+  if (!Array.isArray(raw.done)) throw new Error("done: expected an array of topics");
+  return {
+    done: checkList(raw.done, "done", (topic: any, where) => {
+      if (!topic || typeof topic !== "object" || !isString(topic.title)) {
+        throw new Error(`${where}: expected { "title": string, "bullets": [...] }`);
+      }
+      return {
+        title: topic.title.trim(),
+        bullets: checkList(topic.bullets, `${where}.bullets`, checkBullet),
+      };
+    }),
+    next: checkList(raw.next, "next", checkBullet),
+    blockers: checkList(raw.blockers, "blockers", checkBullet),
+  };
+}
+
+/**
+ * Why a bullet must be rejected, or undefined when every ref checks out.
+ * A bullet without refs can't be traced to anything, so it is rejected too.
+ */
+function citationProblem(bullet: SummaryBullet, allowed: (ref: string) => boolean) {
+  if (!bullet.refs.length) return "cites nothing";
+  const unknown = bullet.refs.filter((ref) => !allowed(ref));
+  return unknown.length ? `unknown refs ${unknown.join(", ")}` : undefined;
+}
+
+export type ParsedSummary =
+  | { ok: true; summary: StructuredSummary; rejected: RejectedBullet[] }
+  | { ok: false; error: string };
+
+/**
+ * Parse and validate the model's answer. Schema problems fail the whole
+ * answer; bullets citing refs outside the collected activity are dropped and
+ * listed in `rejected` (topics left empty go with them).
+ */
+export function parseStructuredSummary(text: string, refs: RefIndex): ParsedSummary {
+  let summary: StructuredSummary;
+  try {
+    summary = checkShape(JSON.parse(extractJson(text)));
+  } catch (err: any) {
+    return { ok: false, error: err.message };
+  }
+
+  const rejected: RejectedBullet[] = [];
+  const keep = (
+    section: keyof StructuredSummary,
+    bullets: SummaryBullet[],
+    allowed: (ref: string) => boolean
+  ) =>
+    bullets.filter((bullet) => {
+      const reason = citationProblem(bullet, allowed);
+      if (reason) rejected.push({ ...bullet, section, reason });
+      return !reason;
+    });
+
+  const done = summary.done
+    .map((topic) => ({
+      ...topic,
+      bullets: keep("done", topic.bullets, (ref) => refs.activity.has(ref)),
+    }))
+    .filter((topic) => topic.bullets.length);
+  const next = keep(
+    "next",
+    summary.next,
+    (ref) => ref === NOTE_REF || refs.openWork.has(ref)
+  );
+  const blockers = keep(
+    "blockers",
+    summary.blockers,
+    (ref) => ref === NOTE_REF || refs.blockers.has(ref)
+  );
+
+  return { ok: true, summary: { done, next, blockers }, rejected };
+}
+
+/** What a ref links to, if anything ("note" links nowhere) */
+export function refTarget(refs: RefIndex, ref: string): RefTarget | undefined {
+  return refs.activity.get(ref) ?? refs.openWork.get(ref) ?? refs.blockers.get(ref);
+}
+
+/**
+ * Plain-text summary in the usual `*EOD UPDATE*` format (the message text,
+ * preview and history)
+ */
+export function renderStructuredSummary(summary: StructuredSummary, heading: string) {
+  const done = summary.done.map((topic) =>
+    [`- ${topic.title}`, ...topic.bullets.map((b) => `  - ${b.text}`)].join("\n")
+  );
+  const list = (bullets: SummaryBullet[]) =>
+    bullets.length ? bullets.map((b) => `- ${b.text}`).join("\n") : "- None";
+
+  return [
+    heading,
+    "*Done*",
+    done.length ? done.join("\n") : "No activity on GitLab today.",
+    "*Next*",
+    list(summary.next),
+    "*Blockers*",
+    list(summary.blockers),
+  ].join("\n");
+}
@@ -0,0 +1,134 @@
+import { getConfig } from "../config";
+import {
+  parseStructuredSummary,
+  RejectedBullet,
+  renderStructuredSummary,
+  StructuredSummary,
+} from "../structured";
+import { ollamaSummarizer } from "./ollama";
+import { openaiSummarizer } from "./openai";
+import { templateSummarizer } from "./template";
+import { Summarizer, SummarizerName, SummaryInput } from "./types";
+
+export * from "./types";
+
+const SUMMARIZERS: Record<SummarizerName, Summarizer> = {
+  openai: openaiSummarizer,
+  ollama: ollamaSummarizer,
+  template: templateSummarizer,
+};
+
+/**
+ * The summarizer for a run: `name` (per-run choice, e.g. ?summarizer=template)
+ * else EOD_SUMMARIZER, default the OpenAI-compatible endpoint
+ */
+export function resolveSummarizer(name?: string): Summarizer {
+  const wanted = (name || getConfig().summarizer)
+    .trim()
+    .toLowerCase();
+  const summarizer = SUMMARIZERS[wanted as SummarizerName];
+  if (!summarizer) {
+    throw new Error(
+      `Unknown summarizer "${wanted}" (expected ${Object.keys(SUMMARIZERS).join(", ")})`
+    );
+  }
+  return summarizer;
+}
+
+export type SummaryResult = {
+  summary: string;
+  /** Who actually wrote `summary` */
+  summarizer: SummarizerName;
+  /** True when the chosen summarizer failed and the template stepped in */
+  fallback: boolean;
+  /** Structured runs: the validated answer `summary` was rendered from */
+  structured?: StructuredSummary;
+  rejected?: RejectedBullet[];
+};
+
+/** Validation failures get one retry with the problem spelled out */
+const STRUCTURED_ATTEMPTS = 2;
+
+/**
+ * Ask a model for the structured JSON and validate it against `input.refs`.
+ * An invalid answer (bad JSON / shape, hallucinated refs, no Done bullet
+ * left for a non-empty window) is retried once; on the last attempt bullets
+ * with unknown refs are dropped instead. Throws when nothing valid came back.
+ */
+async function summarizeStructured(
+  summarizer: Summarizer,
+  input: SummaryInput & Required<Pick<SummaryInput, "refs">>
+): Promise<SummaryResult> {
+  let prompt = input.prompt;
+  let problem = "";
+
+  for (let attempt = 1; attempt <= STRUCTURED_ATTEMPTS; attempt++) {
+    const answer = await summarizer.summarize({ ...input, prompt });
+    const parsed = answer
+      ? parseStructuredSummary(answer, input.refs)
+      : ({ ok: false, error: "empty answer" } as const);
+    const last = attempt === STRUCTURED_ATTEMPTS;
+
+    if (!parsed.ok) {
+      problem = parsed.error;
+    } else if (input.refs.activity.size && !parsed.summary.done.length) {
+      problem = "no Done bullet cites the activity";
+    } else if (parsed.rejected.length && !last) {
+      problem = parsed.rejected
+        .map((r) => `"${r.text}" (${r.section}: ${r.reason})`)
+        .join("; ");
+    } else {
+      if (parsed.rejected.length) {
+        console.warn(
+          `⚠️ Dropped ${parsed.rejected.length} bullet(s) citing unknown refs:`,
+          parsed.rejected.map((r) => r.refs.join(",")).join(" | ")
+        );
+      }
+      return {
+        summary: renderStructuredSummary(parsed.summary, input.heading),
+        summarizer: summarizer.name,
+        fallback: false,
+        structured: parsed.summary,
+        rejected: parsed.rejected,
+      };
+    }
+
+    console.warn(`⚠️ ${summarizer.name} answer #${attempt} invalid: ${problem}`);
+    prompt = `${input.prompt}\n\nYour previous answer was rejected: ${problem}. Answer again with valid JSON that follows the shape and citation rules exactly.`;
+  }
+
+  throw new Error(`invalid structured summary after ${STRUCTURED_ATTEMPTS} attempts: ${problem}`);
+}
+
+/**
+ * Summarize with the chosen summarizer; when it throws, returns nothing or
+ * (structured runs) keeps failing validation, fall back to the template so
+ * the report never depends on a model. `resolve` maps the name to a
+ * summarizer (see clients.ts).
+ */
+export async function summarize(
+  input: SummaryInput,
+  name?: string,
+  resolve: (name?: string) => Summarizer = resolveSummarizer
+): Promise<SummaryResult> {
+  const summarizer = resolve(name);
+  try {
+    if (input.refs && summarizer.name !== "template") {
+      return await summarizeStructured(summarizer, { ...input, refs: input.refs });
+    }
+    const summary = await summarizer.summarize(input);
+    if (summary) return { summary, summarizer: summarizer.name, fallback: false };
+    console.warn(`⚠️ ${summarizer.name} summary was empty, using the template`);
+  } catch (err: any) {
+    console.warn(
+      `⚠️ ${summarizer.name} summary failed, using the template:`,
+      err.response?.data?.error || err.message || err
+    );
+  }
+
+  return {
+    summary: (await templateSummarizer.summarize(input))!,
+    summarizer: "template",
+    fallback: summarizer.name !== "template",
+  };
+}
@@ -0,0 +1,42 @@
+import { getConfig } from "../config";
+import { http } from "../http";
+import { Summarizer } from "./types";
+
+/** Local models are slow on long prompts; don't hang the run forever */
+const OLLAMA_TIMEOUT_MS = 120_000;
+
+/**
+ * A local Ollama server's native chat API (OLLAMA_BASE_URL / OLLAMA_MODEL),
+ * non-streaming
+ */
+export const ollamaSummarizer: Summarizer = {
+  name: "ollama",
+  async summarize({ system, prompt }) {
+    const { baseUrl, model } = getConfig().ollama;
+    const res = await http.post(
+      `${baseUrl}/api/chat`,
+      {
+        model,
+        stream: false,
+        messages: [
+          { role: "system", content: system },
+          { role: "user", content: prompt },
+        ],
+      },
+      {},
+      // A timed-out generation is not worth repeating in full
+      { timeoutMs: OLLAMA_TIMEOUT_MS, retries: 1 }
+    );
+    return res.data?.message?.content?.trim() || undefined;
+  },
+  async check() {
+    const { baseUrl, model } = getConfig().ollama;
+    const res = await http.get(`${baseUrl}/api/tags`, {}, { retries: 0 });
+    const names: string[] = (res.data?.models ?? []).map((m: any) => m.name);
+    // "llama3.1" is pulled as "llama3.1:latest"
+    if (!names.some((name) => name === model || name === `${model}:latest`)) {
+      throw new Error(`model "${model}" is not pulled on the Ollama server`);
+    }
+    return { model, endpoint: baseUrl };
+  },
+};
@@ -0,0 +1,48 @@
+import OpenAI from "openai";
+import { getConfig } from "../config";
+import { Summarizer } from "./types";
+
+/** The SDK defaults to 10 minutes; it retries 429 / 5xx itself (twice) */
+const OPENAI_TIMEOUT_MS = 120_000;
+
+export type OpenAIEndpoint = { apiKey?: string; baseUrl?: string; model?: string };
+
+/**
+ * Any OpenAI-compatible chat completions endpoint (OpenAI, Gemini's
+ * compatibility layer, vLLM, ...): AI_MODEL_NAME / AI_BASE_URL / AI_API_KEY
+ * unless `endpoint` says otherwise (e.g. a local stub server in tests)
+ */
+export function createOpenAISummarizer(endpoint?: OpenAIEndpoint): Summarizer {
+  let client: OpenAI | undefined;
+  const settings = () => endpoint ?? getConfig().openai;
+
+  // Created on first use so deployments on another summarizer need no key
+  function openai() {
+    const { apiKey, baseUrl } = settings();
+    client ??= new OpenAI({ apiKey, baseURL: baseUrl, timeout: OPENAI_TIMEOUT_MS });
+    return client;
+  }
+
+  return {
+    name: "openai",
+    async summarize({ system, prompt }) {
+      const aiResponse = await openai().chat.completions.create({
+        model: settings().model!,
+        messages: [
+          { role: "system", content: system },
+          { role: "user", content: prompt },
+        ],
+      });
+      return aiResponse.choices?.[0]?.message?.content?.trim() || undefined;
+    },
+    async check() {
+      const { model, baseUrl } = settings();
+      if (!model) throw new Error("AI_MODEL_NAME is not set");
+      // Looks the model up without spending tokens
+      const found = await openai().models.retrieve(model);
+      return { model: found.id || model, endpoint: baseUrl ?? "api.openai.com" };
+    },
+  };
+}
+
+export const openaiSummarizer = createOpenAISummarizer();
@@ -0,0 +1,209 @@
+import { primaryTransition } from "../lifecycle";
+import type { OpenWork } from "../openwork";
+import { summarizeDeployments, summarizePipelines } from "../pipelines";
+import { ActivityItem, groupActivity } from "../sources";
+import type { MrTransition } from "../sources/types";
+import { Summarizer, SummaryInput } from "./types";
+import { plural } from "../util";
+
+/** Sub-bullets per topic before the rest collapse into "+N more" */
+const MAX_DETAILS = 5;
+const MAX_NEXT = 4;
+
+/** How an MR's primary transition reads at the start of its bullet */
+const TRANSITION_VERBS: Record<MrTransition, string> = {
+  merged: "Merged",
+  closed: "Closed",
+  reopened: "Reopened",
+  ready: "Marked ready",
+  opened: "Opened",
+  pushed: "Pushed to",
+  pipeline: "Ran CI on",
+  updated: "Updated",
+};
+
+function bullet(text: string, details: string[] = []) {
+  const unique = Array.from(new Set(details));
+  const shown = unique.slice(0, MAX_DETAILS).map((d) => `  - ${d}`);
+  if (unique.length > MAX_DETAILS) {
+    shown.push(`  - +${unique.length - MAX_DETAILS} more`);
+  }
+  return [`- ${text}`, ...shown].join("\n");
+}
+
+/**
+ * Commits grouped under the authored MR of their branch; the rest grouped
+ * by project + branch
+ */
+function workBullets(commits: ActivityItem[], mrs: ActivityItem[]) {
+  const bullets: string[] = [];
+  const claimed = new Set<ActivityItem>();
+
+  for (const mr of mrs) {
+    const onBranch = commits.filter(
+      (c) =>
+        mr.branch &&
+        c.branch === mr.branch &&
+        c.project === mr.project &&
+        c.source === mr.source
+    );
+    onBranch.forEach((c) => claimed.add(c));
+    bullets.push(
+      bullet(
+        `${TRANSITION_VERBS[primaryTransition(mr)]} ${mr.title} (${mr.project})`,
+        onBranch.map((c) => c.title)
+      )
+    );
+  }
+
+  const byBranch = new Map<string, ActivityItem[]>();
+  for (const commit of commits.filter((c) => !claimed.has(c))) {
+    const key = `${commit.project}\u0000${commit.branch ?? ""}`;
+    if (!byBranch.has(key)) byBranch.set(key, []);
+    byBranch.get(key)!.push(commit);
+  }
+  for (const [key, branchCommits] of byBranch) {
+    const [project, branch] = key.split("\u0000");
+    bullets.push(
+      bullet(
+        `${plural(branchCommits.length, "commit")} on ${branch || "the default branch"} (${project})`,
+        branchCommits.map((c) => c.title)
+      )
+    );
+  }
+
+  return bullets;
+}
+
+function ciBullets(pipelines: ActivityItem[], deployments: ActivityItem[]) {
+  const bullets: string[] = [];
+  if (pipelines.length) {
+    bullets.push(bullet(`Pipelines: ${summarizePipelines(pipelines).text}`));
+  }
+  const deployed = summarizeDeployments(deployments);
+  if (deployed) {
+    bullets.push(
+      bullet(
+        deployed.charAt(0).toUpperCase() + deployed.slice(1),
+        deployments.map((d) => `${d.project}@${d.branch}`)
+      )
+    );
+  }
+  return bullets;
+}
+
+function doneBullets(input: SummaryInput) {
+  const {
+    commits,
+    mrsCreated,
+    mrsReviewed,
+    issues,
+    comments,
+    pipelines,
+    deployments,
+  } = groupActivity(input.activity.items);
+
+  const bullets = workBullets(commits, mrsCreated);
+  if (mrsReviewed.length) {
+    bullets.push(
+      bullet(
+        `Reviewed ${plural(mrsReviewed.length, "MR")}`,
+        mrsReviewed.map((r) => `${r.title}${r.detail ? ` (${r.detail})` : ""}`)
+      )
+    );
+  }
+  if (issues.length) {
+    bullets.push(
+      bullet(
+        `Updated ${plural(issues.length, "issue")}`,
+        issues.map((i) => `${i.title}${i.detail ? ` (${i.detail})` : ""}`)
+      )
+    );
+  }
+  if (comments.length) {
+    bullets.push(
+      bullet(
+        `Commented on ${plural(new Set(comments.map((c) => c.title)).size, "ticket")}`,
+        comments.map((c) => c.title)
+      )
+    );
+  }
+  return [...bullets, ...ciBullets(pipelines, deployments)];
+}
+
+function nextBullets(openWork?: OpenWork, note?: string) {
+  const bullets = openWork
+    ? [
+        ...openWork.mergeRequests.map((mr) =>
+          bullet(
+            `${mr.draft ? "Finish" : mr.approved ? "Merge" : "Get review on"} ${mr.title} (${mr.project})`
+          )
+        ),
+        ...openWork.issues.map((i) =>
+          bullet(`${i.title} (${i.project}${i.dueDate ? `, due ${i.dueDate}` : ""})`)
+        ),
+      ].slice(0, MAX_NEXT)
+    : [];
+  return note ? [bullet(note), ...bullets] : bullets;
+}
+
+function dailySummary(input: SummaryInput) {
+  const done = doneBullets(input);
+  const next = nextBullets(input.openWork, input.note);
+  const blockers = input.openWork?.blockers ?? [];
+
+  return [
+    input.heading,
+    "*Done*",
+    done.length ? done.join("\n") : "No activity on GitLab today.",
+    "*Next*",
+    next.length ? next.join("\n") : "- None",
+    "*Blockers*",
+    blockers.length
+      ? blockers.map((b) => bullet(`${b.title}: ${b.reason}`)).join("\n")
+      : "- None",
+  ].join("\n");
+}
+
+/** One bullet per project: what shipped, what's in flight, reviews, volume */
+function themesSummary(input: SummaryInput) {
+  const { pipelines, deployments } = groupActivity(input.activity.items);
+  const projects = new Map<string, ActivityItem[]>();
+  for (const item of input.activity.items) {
+    if (item.kind === "pipeline" || item.kind === "deployment") continue;
+    if (!projects.has(item.project)) projects.set(item.project, []);
+    projects.get(item.project)!.push(item);
+  }
+
+  const bullets = Array.from(projects.entries()).map(([project, items]) => {
+    const { commits, mrsCreated, mrsReviewed, issues, comments } = groupActivity(items);
+    const titles = (mrs: ActivityItem[]) => mrs.map((mr) => mr.title).join(", ");
+    const merged = mrsCreated.filter((mr) => primaryTransition(mr) === "merged");
+    const other = mrsCreated.filter((mr) => primaryTransition(mr) !== "merged");
+    return bullet(project, [
+      ...(merged.length ? [`Merged: ${titles(merged)}`] : []),
+      ...(other.length ? [`In progress: ${titles(other)}`] : []),
+      ...(mrsReviewed.length ? [`Reviewed: ${titles(mrsReviewed)}`] : []),
+      ...(issues.length ? [`${plural(issues.length, "issue")} updated`] : []),
+      ...(comments.length ? [plural(comments.length, "comment")] : []),
+      ...(commits.length ? [plural(commits.length, "commit")] : []),
+    ]);
+  });
+  bullets.push(...ciBullets(pipelines, deployments));
+
+  return [
+    input.heading,
+    bullets.length ? bullets.join("\n") : "No activity on GitLab in this period.",
+  ].join("\n");
+}
+
+/**
+ * Rule-based summary in the same bullet format the models are asked for,
+ * with no model at all. Also the automatic fallback when a model fails.
+ */
+export const templateSummarizer: Summarizer = {
+  name: "template",
+  async summarize(input) {
+    return input.layout === "daily" ? dailySummary(input) : themesSummary(input);
+  },
+};
@@ -0,0 +1,42 @@
+import type { OpenWork } from "../openwork";
+import type { CollectedActivity } from "../sources";
+import type { RefIndex } from "../structured";
+
+export const SUMMARIZER_NAMES = ["openai", "ollama", "template"] as const;
+export type SummarizerName = (typeof SUMMARIZER_NAMES)[number];
+
+/**
+ * What a summary is built from. Model-backed summarizers answer `system` /
+ * `prompt`; the template summarizer ignores those and formats the collected
+ * activity directly, so every field it needs is passed along.
+ */
+export type SummaryInput = {
+  system: string;
+  prompt: string;
+  /** First line of the summary, e.g. "*EOD UPDATE* (Mon, 19 Oct)" */
+  heading: string;
+  /** Done / Next / Blockers (daily EODs) or one bullet per theme (digests) */
+  layout: "daily" | "themes";
+  activity: CollectedActivity;
+  openWork?: OpenWork;
+  note?: string;
+  /**
+   * Set when the prompt asks for structured JSON (daily EODs): model answers
+   * are validated against these refs (see structured.ts)
+   */
+  refs?: RefIndex;
+};
+
+/**
+ * Turns a report's material into the Slack-ready bullet summary. Returns
+ * undefined when it produced nothing; throws when the call itself fails.
+ */
+export type Summarizer = {
+  name: SummarizerName;
+  summarize(input: SummaryInput): Promise<string | undefined>;
+  /**
+   * Health probe (/health): cheap reachability check of the backend without
+   * generating anything; resolves with what it found, throws when unusable
+   */
+  check?(): Promise<Record<string, unknown>>;
+};
@@ -0,0 +1,25 @@
+/**
+ * Small helpers shared across modules
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Comma-separated setting (or a YAML / JSON list) → trimmed, non-empty items
+ */
+export function splitList(value: unknown): string[] {
+  if (value === undefined || value === null) return [];
+  const list = Array.isArray(value) ? value : String(value).split(",");
+  return list.map((v) => String(v).trim()).filter(Boolean);
+}
+
+/** `text` on one line, cut to `max` characters with an ellipsis */
+export function excerpt(text: string, max: number) {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+}
+
+/** "1 commit", "3 commits" */
+export function plural(count: number, noun: string) {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
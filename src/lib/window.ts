@@ -0,0 +1,281 @@
+import { DAY_MS } from "./util";
+
+/**
+ * EOD time windows in a member's own timezone.
+ *
+ * Rules:
+ * - A day's report ends at the end of that day: the working-hours end when
+ *   configured (e.g. 19:00), else local midnight.
+ * - It starts where the previous working day's report ended, so after-hours
+ *   work rolls into the next report and Monday covers Friday-after-hours
+ *   through the weekend.
+ * - Without a date and without working hours the window stays a rolling 24h
+ *   (stretched back to the previous working day on Mondays).
+ * - Multi-day ranges (weekly / sprint digests) follow the same day edges, so
+ *   a range covers exactly what its daily reports would.
+ */
+
+export const DEFAULT_TIMEZONE = "Asia/Kolkata";
+
+/** Local "HH:MM" bounds of a working day */
+export type WorkingHours = { start: string; end: string };
+
+export type EodWindow = {
+  since: Date;
+  until: Date;
+  /** Calendar day (YYYY-MM-DD, member's timezone) the report belongs to */
+  day: string;
+  timezone: string;
+  labelSince: string;
+  labelUntil: string;
+  /** Short weekday of `day` (e.g. "Mon"), used in the EOD title */
+  labelDay: string;
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+export function isValidTimezone(timezone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse "09:00-19:00" (or "09:00–19:00") into WorkingHours
+ */
+export function parseWorkingHours(value: string): WorkingHours {
+  const [start, end] = value.split(/\s*[-–]\s*/);
+  if (!TIME_PATTERN.test(start || "") || !TIME_PATTERN.test(end || "")) {
+    throw new Error(`Invalid working hours "${value}": expected HH:MM-HH:MM`);
+  }
+  if (minutesOf(start) >= minutesOf(end)) {
+    throw new Error(`Invalid working hours "${value}": start must be before end`);
+  }
+  return { start, end };
+}
+
+function minutesOf(time: string) {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+}
+
+/**
+ * Offset (ms) of `timezone` from UTC at the given instant
+ */
+function tzOffset(at: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(at);
+  const get = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second")
+  );
+  return asUtc - Math.floor(at.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant a local wall-clock time (YYYY-MM-DD + HH:MM) happens in `timezone`
+ */
+export function zonedTime(day: string, time: string, timezone: string) {
+  const [y, m, d] = day.split("-").map(Number);
+  const [hh, mm] = time.split(":").map(Number);
+  const guess = Date.UTC(y, m - 1, d, hh, mm);
+  // Re-check the offset at the candidate instant to get DST transitions right
+  const first = guess - tzOffset(new Date(guess), timezone);
+  return new Date(guess - tzOffset(new Date(first), timezone));
+}
+
+/** YYYY-MM-DD of an instant in `timezone` */
+export function localDay(at: Date, timezone: string) {
+  return at.toLocaleDateString("en-CA", { timeZone: timezone });
+}
+
+export function addDays(day: string, days: number) {
+  const [y, m, d] = day.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d) + days * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+}
+
+/** 0 = Sunday … 6 = Saturday, for a YYYY-MM-DD day */
+export function weekday(day: string) {
+  const [y, m, d] = day.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+}
+
+/** Previous Monday–Friday before `day` */
+function previousWorkday(day: string) {
+  let prev = addDays(day, -1);
+  while (weekday(prev) === 0 || weekday(prev) === 6) prev = addDays(prev, -1);
+  return prev;
+}
+
+function endOfDay(day: string, timezone: string, workingHours?: WorkingHours) {
+  return workingHours
+    ? zonedTime(day, workingHours.end, timezone)
+    : zonedTime(addDays(day, 1), "00:00", timezone);
+}
+
+/**
+ * Human readable label in the member's timezone (e.g. "Mon, 20 Oct 2025, 07:00 pm CET")
+ */
+export function formatLabel(d: Date, timezone: string) {
+  return d.toLocaleString("en-IN", {
+    timeZone: timezone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZoneName: "short",
+  });
+}
+
+export function computeWindow(options: {
+  timezone?: string;
+  workingHours?: WorkingHours;
+  /** YYYY-MM-DD in the member's timezone; omitted = today so far */
+  date?: string;
+  now?: Date;
+}): EodWindow {
+  const timezone = options.timezone || DEFAULT_TIMEZONE;
+  const { workingHours, date } = options;
+  const now = options.now ?? new Date();
+
+  if (date && !DATE_PATTERN.test(date)) {
+    throw new Error(`Invalid date "${date}": expected YYYY-MM-DD`);
+  }
+
+  const day = date ?? localDay(now, timezone);
+  const prev = previousWorkday(day);
+
+  let since: Date;
+  let until: Date;
+
+  if (date || workingHours) {
+    since = endOfDay(prev, timezone, workingHours);
+    const dayEnd = endOfDay(day, timezone, workingHours);
+    until = !date && dayEnd > now ? now : dayEnd;
+  } else {
+    // Rolling window: 24h, or back to the same time on the previous workday
+    const daysBack = Math.round(
+      (Date.parse(day) - Date.parse(prev)) / DAY_MS
+    );
+    until = now;
+    since = new Date(now.getTime() - daysBack * DAY_MS);
+  }
+
+  return {
+    since,
+    until,
+    day,
+    timezone,
+    labelSince: formatLabel(since, timezone),
+    labelUntil: formatLabel(until, timezone),
+    labelDay: new Date(`${day}T12:00:00Z`).toLocaleDateString("en-IN", {
+      weekday: "short",
+      timeZone: "UTC",
+    }),
+  };
+}
+
+/** Multi-day report periods; custom ranges use explicit from/to instead */
+export type ReportPeriod = "week" | "sprint";
+
+export type RangeWindow = EodWindow & { from: string; to: string };
+
+/**
+ * [from, to] (inclusive YYYY-MM-DD) for the current week or sprint.
+ *
+ * - week: Monday of the current week → today
+ * - sprint: sprints of `sprintLengthDays` starting at `sprintStart`
+ *   (EOD_SPRINT_START / EOD_SPRINT_LENGTH_DAYS) → the current one, up to today
+ */
+export function periodRange(
+  period: ReportPeriod,
+  options: {
+    timezone?: string;
+    now?: Date;
+    sprintStart?: string;
+    sprintLengthDays?: number;
+  } = {}
+) {
+  const timezone = options.timezone || DEFAULT_TIMEZONE;
+  const today = localDay(options.now ?? new Date(), timezone);
+
+  if (period === "week") {
+    // getUTCDay: 0 = Sunday; weeks start on Monday
+    const offset = (weekday(today) + 6) % 7;
+    return { from: addDays(today, -offset), to: today };
+  }
+
+  const sprintStart = options.sprintStart ?? process.env.EOD_SPRINT_START;
+  const length =
+    options.sprintLengthDays ?? (Number(process.env.EOD_SPRINT_LENGTH_DAYS) || 14);
+  if (!sprintStart || !DATE_PATTERN.test(sprintStart)) {
+    throw new Error(
+      "period=sprint needs EOD_SPRINT_START (YYYY-MM-DD of any sprint's first day)"
+    );
+  }
+
+  const elapsed = Math.round((Date.parse(today) - Date.parse(sprintStart)) / DAY_MS);
+  const from = addDays(sprintStart, Math.floor(elapsed / length) * length);
+  const end = addDays(from, length - 1);
+  return { from, to: end < today ? end : today };
+}
+
+/**
+ * Window for an inclusive day range, using the same day edges as daily reports
+ */
+export function computeRangeWindow(options: {
+  timezone?: string;
+  workingHours?: WorkingHours;
+  from: string;
+  to: string;
+  now?: Date;
+}): RangeWindow {
+  const timezone = options.timezone || DEFAULT_TIMEZONE;
+  const { workingHours, from, to } = options;
+  const now = options.now ?? new Date();
+
+  for (const [name, value] of [["from", from], ["to", to]]) {
+    if (!DATE_PATTERN.test(value)) {
+      throw new Error(`Invalid ${name} "${value}": expected YYYY-MM-DD`);
+    }
+  }
+  if (from > to) throw new Error(`Invalid range: ${from} is after ${to}`);
+
+  const since = endOfDay(previousWorkday(from), timezone, workingHours);
+  const rangeEnd = endOfDay(to, timezone, workingHours);
+  const until = rangeEnd > now ? now : rangeEnd;
+
+  return {
+    since,
+    until,
+    day: to,
+    timezone,
+    from,
+    to,
+    labelSince: formatLabel(since, timezone),
+    labelUntil: formatLabel(until, timezone),
+    labelDay: `${from} → ${to}`,
+  };
+}
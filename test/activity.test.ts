@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { collectActivity, collectEod } from "@/lib/collect";
+import { activityTextSections } from "@/lib/eod";
+import { incompleteNotice } from "@/lib/sources";
+import { memberFromEnv } from "@/lib/roster";
+import { computeWindow } from "@/lib/window";
+import { fixtureGitlab, withFailure } from "./helpers/gitlab";
+
+const window = computeWindow({ timezone: "UTC", date: "2026-03-10" });
+
+describe("collected GitLab activity", () => {
+  it("collects commits, authored MRs and reviews from the recorded day", async () => {
+    const gitlab = fixtureGitlab();
+    const activity = await collectActivity(memberFromEnv(), window, {
+      gitlab: gitlab.client,
+    });
+
+    const kinds = activity.items.map((i) => `${i.kind}:${i.id}`);
+    expect(kinds).toEqual([
+      "commit:b2c3d4e5",
+      "commit:a1b2c3d4",
+      "commit:c3d4e5f6",
+      "merge_request:7",
+      "merge_request:5",
+      "review:9",
+    ]);
+    // Every call the run made was recorded
+    expect(activity.failures).toBeUndefined();
+    expect(incompleteNotice(activity)).toBeUndefined();
+  });
+
+  it("groups authored MRs by what happened to them", async () => {
+    const activity = await collectActivity(memberFromEnv(), window, {
+      gitlab: fixtureGitlab().client,
+    });
+    const { mergeRequests } = activityTextSections(activity);
+
+    expect(mergeRequests).toMatch(/^MRs Merged:\n• MR2 \[backend\] Refactor session store/);
+    expect(mergeRequests).toContain(
+      "MRs Opened:\n• MR1 [backend] Add login page\n  What happened: opened, pushed, 2 commits pushed"
+    );
+    expect(mergeRequests.indexOf("MRs Merged")).toBeLessThan(
+      mergeRequests.indexOf("MRs Opened")
+    );
+  });
+
+  it("describes reviews from the member's own notes and verdict", async () => {
+    const activity = await collectActivity(memberFromEnv(), window, {
+      gitlab: fixtureGitlab().client,
+    });
+    const { reviews, commits } = activityTextSections(activity);
+
+    expect(reviews).toContain("• R1 [backend] Rate limit the public API");
+    expect(reviews).toContain("> Could the bucket size come from config?");
+    // The author's reply is not the member's review
+    expect(reviews).not.toContain("Done, see the latest push.");
+    expect(commits).toContain("• C3 [backend] Add login form (feature/login)");
+  });
+
+  it("keeps going and flags the report when a section fails", async () => {
+    const gitlab = fixtureGitlab(
+      withFailure("/merge_requests", 503, { reviewer_id: "42" })
+    );
+    const activity = await collectActivity(memberFromEnv(), window, {
+      gitlab: gitlab.client,
+    });
+
+    expect(activity.items.some((i) => i.kind === "review")).toBe(false);
+    expect(activity.items.some((i) => i.kind === "merge_request")).toBe(true);
+    expect(incompleteNotice(activity)).toBe("incomplete: 1 request failed");
+  });
+
+  it("still finds assigned reviews when the user's events fail", async () => {
+    const gitlab = fixtureGitlab(withFailure("/users/42/events", 503));
+    const activity = await collectActivity(memberFromEnv(), window, {
+      gitlab: gitlab.client,
+    });
+
+    expect(activity.sourceErrors).toBeUndefined();
+    expect(activity.items.map((i) => `${i.kind}:${i.id}`)).toContain("review:9");
+    expect(activity.failures?.map((f) => f.call)).toEqual([
+      "Comment events",
+      "Approval events",
+    ]);
+  });
+});
+
+describe("collectEod", () => {
+  it("returns the activity and open work with how they were collected", async () => {
+    const gitlab = fixtureGitlab();
+    const collection = await collectEod(memberFromEnv(), window, { gitlab: gitlab.client });
+
+    expect(collection.items).toHaveLength(6);
+    expect(collection.openWork?.mergeRequests.map((mr) => mr.title)).toEqual([
+      "Add login page",
+    ]);
+
+    const { diagnostics } = collection;
+    expect(diagnostics.apiCalls).toBe(gitlab.calls.length);
+    expect(diagnostics.openWork).toMatchObject({ status: "ok", apiCalls: 5 });
+    const [source] = diagnostics.sources;
+    expect(source).toMatchObject({ source: "gitlab", ok: true, items: 6 });
+    expect(source.gitlab?.projects.map((p) => p.path)).toEqual(["acme/backend"]);
+    expect(source.gitlab?.commits).toMatchObject({ strategy: "branches", found: 4 });
+  });
+
+  it("flags the report incomplete when open work fails", async () => {
+    const gitlab = fixtureGitlab(withFailure("/issues", 503));
+    const collection = await collectEod(memberFromEnv(), window, { gitlab: gitlab.client });
+
+    expect(collection.openWork).toBeUndefined();
+    expect(collection.diagnostics.openWork).toMatchObject({ status: "failed" });
+    expect(collection.openWorkError).toMatch(/503/);
+    expect(incompleteNotice(collection)).toBe("incomplete: open work unavailable");
+  });
+});
@@ -0,0 +1,70 @@
+import crypto from "crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { guard } from "@/lib/auth";
+
+const options = { scope: "test", limit: 100 };
+
+function request(ip: string, headers: Record<string, string> = {}) {
+  return new Request("https://eod.test/slack-eod?date=2026-03-10", {
+    headers: { "x-forwarded-for": ip, ...headers },
+  });
+}
+
+function signed(ip: string, secret: string, timestamp = Math.floor(Date.now() / 1000)) {
+  const signature =
+    "v1=" +
+    crypto
+      .createHmac("sha256", secret)
+      .update(`v1:${timestamp}:GET:/slack-eod?date=2026-03-10:`)
+      .digest("hex");
+  return request(ip, {
+    "x-eod-timestamp": String(timestamp),
+    "x-eod-signature": signature,
+  });
+}
+
+beforeEach(() => {
+  vi.stubEnv("EOD_API_TOKENS", "ci:good-token");
+  vi.stubEnv("EOD_HMAC_SECRET", "hmac-secret");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("guard", () => {
+  it("throttles an address after repeated failed attempts, even with a valid token", async () => {
+    const bad = { authorization: "Bearer wrong" };
+    for (let i = 0; i < 10; i++) {
+      expect((await guard(request("10.0.0.1", bad), options))?.status).toBe(401);
+    }
+
+    const locked = await guard(
+      request("10.0.0.1", { authorization: "Bearer good-token" }),
+      options
+    );
+    expect(locked?.status).toBe(429);
+    expect(locked?.headers.get("Retry-After")).toMatch(/^\d+$/);
+
+    // Other addresses are unaffected
+    const other = await guard(
+      request("10.0.0.2", { authorization: "Bearer good-token" }),
+      options
+    );
+    expect(other).toBeUndefined();
+  });
+
+  it("accepts an HMAC signature once and rejects its replay", async () => {
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    expect(await guard(signed("10.0.1.1", "hmac-secret", timestamp), options)).toBeUndefined();
+    const replay = await guard(signed("10.0.1.1", "hmac-secret", timestamp), options);
+    expect(replay?.status).toBe(401);
+  });
+
+  it("rejects signatures outside the tolerance", async () => {
+    const stale = Math.floor(Date.now() / 1000) - 10 * 60;
+    const result = await guard(signed("10.0.2.1", "hmac-secret", stale), options);
+    expect(result?.status).toBe(401);
+  });
+});
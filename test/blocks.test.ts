@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { buildEodBlocks } from "@/lib/blocks";
+import type { EodReport } from "@/lib/eod";
+import { memberFromEnv } from "@/lib/roster";
+import type { ActivityItem } from "@/lib/sources";
+
+function report(items: ActivityItem[]): EodReport {
+  return {
+    items,
+    member: memberFromEnv(),
+    summary: "*EOD UPDATE*\n• Shipped things",
+    aiFailed: false,
+    summarizer: "template",
+    activity: "",
+    day: "2026-03-10",
+    labelSince: "Mar 10, 00:00",
+    labelUntil: "Mar 11, 00:00",
+  };
+}
+
+const mr = (i: number): ActivityItem => ({
+  source: "gitlab",
+  kind: "merge_request",
+  id: String(i),
+  project: "backend",
+  title: `Refactor the session store, part ${i} of a long series`,
+  web_url: `https://gitlab.test/acme/backend/-/merge_requests/${i}?${"x".repeat(80)}`,
+});
+
+const contextText = (blocks: any[]) =>
+  blocks.filter((b) => b.type === "context").map((b) => b.elements[0].text as string);
+
+describe("reference lines", () => {
+  it("keep links whole and count the rest when they overflow a block", () => {
+    const blocks = buildEodBlocks(report(Array.from({ length: 40 }, (_, i) => mr(i + 1))));
+    const line = contextText(blocks).find((t) => t.startsWith("🔀 "))!;
+
+    expect(line.length).toBeLessThanOrEqual(3000);
+    const shown = line.match(/<[^>]+>/g)!;
+    expect(shown.every((l) => /^<https:\/\/\S+\|[^|]+>$/.test(l))).toBe(true);
+    expect(line).toMatch(new RegExp(` …and ${40 - shown.length} more$`));
+  });
+
+  it("list every link when they fit", () => {
+    const blocks = buildEodBlocks(report([mr(1), mr(2)]));
+    const line = contextText(blocks).find((t) => t.startsWith("🔀 "))!;
+
+    expect(line.match(/<[^>]+>/g)).toHaveLength(2);
+    expect(line).not.toContain("more");
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, expect, it } from "vitest";
+import { collectCommitsFromBranches, collectCommitsFromEvents } from "@/lib/commits";
+import { resolveProjects } from "@/lib/gitlab";
+import { memberFromEnv } from "@/lib/roster";
+import { computeWindow } from "@/lib/window";
+import { fixtureGitlab, gitlabDayRoutes, withFailure } from "./helpers/gitlab";
+
+const window = computeWindow({ timezone: "UTC", date: "2026-03-10" });
+
+async function collect(
+  gitlab: ReturnType<typeof fixtureGitlab>,
+  range: { since: Date; until: Date } = window
+) {
+  const client = gitlab.client();
+  const projects = await resolveProjects(client);
+  const { commits, scan } = await collectCommitsFromBranches(
+    client,
+    memberFromEnv(),
+    projects,
+    range
+  );
+  return { client, commits, scan };
+}
+
+const commitQueries = (gitlab: ReturnType<typeof fixtureGitlab>) =>
+  gitlab.calls
+    .filter((c) => c.path.endsWith("/repository/commits"))
+    .map((c) => c.params.ref_name);
+
+describe("branch strategy", () => {
+  it("scans recently active branches and MR source branches only", async () => {
+    const gitlab = fixtureGitlab();
+    await collect(gitlab);
+
+    expect(commitQueries(gitlab).sort()).toEqual([
+      "feature/login",
+      "feature/rate-limit",
+      "main",
+      "refactor/session-store",
+    ]);
+    // Last commit two months before the window
+    expect(commitQueries(gitlab)).not.toContain("legacy/reports");
+  });
+
+  it("scans branches last active early in a long range", async () => {
+    const gitlab = fixtureGitlab();
+    await collect(gitlab, {
+      since: new Date("2026-01-01T00:00:00.000Z"),
+      until: new Date("2026-03-11T00:00:00.000Z"),
+    });
+
+    expect(commitQueries(gitlab)).toContain("legacy/reports");
+  });
+
+  it("queries each branch by the member's author alias within the window", async () => {
+    const gitlab = fixtureGitlab();
+    await collect(gitlab);
+
+    const main = gitlab.calls.find((c) => c.params.ref_name === "main")!;
+    expect(main.params).toMatchObject({
+      author: "dev@example.com",
+      since: "2026-03-10T00:00:00.000Z",
+      until: "2026-03-11T00:00:00.000Z",
+    });
+  });
+
+  it("reports every listed branch and why each scanned one was picked", async () => {
+    const { scan } = await collect(fixtureGitlab());
+
+    expect(scan.branches).toContainEqual({
+      project: "backend",
+      name: "legacy/reports",
+      lastCommitAt: "2026-01-15T09:00:00.000Z",
+      active: false,
+    });
+    expect(scan.queries?.map((q) => [q.branch, q.via, q.commits])).toEqual([
+      ["main", ["active"], 2],
+      ["feature/login", ["active", "mr"], 2],
+      ["refactor/session-store", ["mr"], 0],
+      ["feature/rate-limit", ["mr"], 0],
+    ]);
+  });
+
+  it("lists a commit found on several branches once", async () => {
+    const { commits, scan } = await collect(fixtureGitlab());
+
+    expect(scan.found).toBe(4);
+    expect(commits.map((c) => c.id)).toEqual(["b2c3d4e5", "a1b2c3d4", "c3d4e5f6"]);
+    expect(commits.find((c) => c.id === "a1b2c3d4")).toMatchObject({
+      branch: "main",
+      project: "backend",
+    });
+  });
+
+  it("ignores branches deleted since they were listed", async () => {
+    const gitlab = fixtureGitlab(
+      withFailure("/projects/101/repository/commits", 404, { ref_name: "feature/login" })
+    );
+    const { client, commits, scan } = await collect(gitlab);
+
+    expect(commits.map((c) => c.id)).toEqual(["b2c3d4e5", "a1b2c3d4"]);
+    expect(client.failures).toEqual([]);
+    // Still visible per branch
+    expect(scan.queries?.find((q) => q.branch === "feature/login")?.error).toMatch(/^404/);
+  });
+
+  it("records other failures so the report can say it is incomplete", async () => {
+    const gitlab = fixtureGitlab(withFailure("/projects/101/repository/branches", 500));
+    const { client, commits } = await collect(gitlab);
+
+    // MR source branches are still scanned
+    expect(commits.map((c) => c.id)).toEqual(["c3d4e5f6", "a1b2c3d4"]);
+    expect(client.failures).toEqual([
+      { call: "Branches of backend", error: "500 - 500 /projects/101/repository/branches" },
+    ]);
+  });
+});
+
+describe("events strategy", () => {
+  it("records a failed events call instead of failing the source", async () => {
+    const client = fixtureGitlab(withFailure("/users/42/events", 503)).client();
+    const projects = await resolveProjects(client);
+    const { commits, scan } = await collectCommitsFromEvents(
+      client,
+      memberFromEnv(),
+      projects,
+      window
+    );
+
+    expect(commits).toEqual([]);
+    expect(scan).toEqual({ strategy: "events", found: 0, pushEvents: 0 });
+    expect(client.failures.map((f) => f.call)).toEqual(["Push events"]);
+  });
+
+  it("drops pushed commits committed before the window", async () => {
+    const commit = (id: string, committed_date: string) => ({
+      id,
+      title: `Commit ${id}`,
+      author_email: "dev@example.com",
+      committed_date,
+      created_at: committed_date,
+    });
+    const client = fixtureGitlab([
+      {
+        path: "/users/42/events",
+        data: [
+          {
+            project_id: 101,
+            created_at: "2026-03-10T09:00:00.000Z",
+            push_data: {
+              ref_type: "branch",
+              ref: "feature/login",
+              commit_from: "a0",
+              commit_to: "c2",
+              commit_count: 2,
+            },
+          },
+        ],
+      },
+      {
+        path: "/projects/101/repository/compare",
+        data: {
+          commits: [
+            commit("c1", "2026-03-06T16:00:00.000Z"),
+            commit("c2", "2026-03-10T08:30:00.000Z"),
+          ],
+        },
+      },
+      ...gitlabDayRoutes,
+    ]).client();
+    const projects = await resolveProjects(client);
+    const { commits } = await collectCommitsFromEvents(
+      client,
+      memberFromEnv(),
+      projects,
+      window
+    );
+
+    expect(commits.map((c) => c.id)).toEqual(["c2"]);
+  });
+});
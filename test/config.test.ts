@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { readConfig } from "@/lib/config";
+
+const base = {
+  GITLAB_TOKEN: "glpat-test",
+  GITLAB_USER_ID: "42",
+  SLACK_BOT_TOKEN: "xoxb-test",
+  SLACK_USER_ID: "U042DEV",
+  EOD_SUMMARIZER: "template",
+};
+
+describe("source settings", () => {
+  it("are read with defaults", () => {
+    const { config, problems } = readConfig({
+      ...base,
+      GITHUB_TOKEN: "ghp-test",
+      GITHUB_REPOS: "acme/backend, acme/web",
+      JIRA_PROJECTS: "PLAT",
+    });
+
+    expect(problems).toEqual([]);
+    expect(config.github).toEqual({
+      api: "https://api.github.com",
+      token: "ghp-test",
+      repos: ["acme/backend", "acme/web"],
+      orgs: [],
+    });
+    expect(config.jira).toMatchObject({ projects: ["PLAT"], maxPages: 10 });
+  });
+
+  it("report partial Jira credentials and malformed values", () => {
+    const { problems } = readConfig({
+      ...base,
+      GITHUB_REPOS: "backend",
+      JIRA_BASE_URL: "acme.atlassian.net",
+      JIRA_MAX_PAGES: "0",
+    });
+
+    expect(problems).toEqual([
+      "GITHUB_REPOS must list repositories as owner/repo",
+      "Jira is partly configured: set JIRA_EMAIL and JIRA_API_TOKEN too, or none of JIRA_BASE_URL, JIRA_EMAIL, JIRA_API_TOKEN",
+      "JIRA_BASE_URL must be an http(s) URL",
+      "JIRA_MAX_PAGES must be a positive whole number",
+    ]);
+  });
+});
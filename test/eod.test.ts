@@ -0,0 +1,149 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { beforeEach, describe, expect, it } from "vitest";
+import { EodClients } from "@/lib/clients";
+import { handleEODRequest, postReviewedEOD } from "@/lib/eod";
+import { memberFromEnv } from "@/lib/roster";
+import { createJsonFileStore } from "@/lib/store";
+import { templateSummarizer } from "@/lib/summarizers/template";
+import { fixtureGitlab } from "./helpers/gitlab";
+import { fakeSlack } from "./helpers/slack";
+
+let slack: ReturnType<typeof fakeSlack>;
+let clients: Partial<EodClients>;
+
+beforeEach(() => {
+  slack = fakeSlack();
+  const store = createJsonFileStore(
+    path.join(fs.mkdtempSync(path.join(os.tmpdir(), "eod-run-")), "history.json")
+  );
+  clients = {
+    gitlab: fixtureGitlab().client,
+    slack: () => slack.api,
+    summarizer: () => templateSummarizer,
+    store: () => store,
+  };
+});
+
+describe("posting an EOD", () => {
+  it("posts to the member's DM with blocks and a permalink", async () => {
+    const result = await handleEODRequest(memberFromEnv(), "2026-03-10", {}, { clients });
+
+    expect(slack.posts).toHaveLength(1);
+    const [post] = slack.posts;
+    expect(post.channel).toBe("D042DEV");
+    expect(post.text).toContain("Add login page");
+    expect(post.blocks?.length).toBeGreaterThan(1);
+
+    expect(result).toMatchObject({ ok: true, user: "dev" });
+    expect("deliveries" in result && result.deliveries[0]).toMatchObject({
+      channel: "D042DEV",
+      updated: false,
+      permalink: expect.stringContaining("https://slack.test/archives/D042DEV/"),
+    });
+  });
+
+  it("mentions the member and threads the post in a channel", async () => {
+    await handleEODRequest(
+      memberFromEnv(),
+      "2026-03-10",
+      { channels: ["#standup"], thread: true },
+      { clients }
+    );
+
+    const [parent, eod] = slack.posts;
+    expect(parent).toMatchObject({ channel: "C0STANDUP", text: "🧵 Daily standup — 2026-03-10" });
+    expect(eod).toMatchObject({ channel: "C0STANDUP", thread_ts: parent.ts });
+    expect(eod.text).toMatch(/^<@U042DEV>\n/);
+  });
+
+  it("skips a repeat run for the same day and updates the post when forced", async () => {
+    const member = memberFromEnv();
+    await handleEODRequest(member, "2026-03-10", {}, { clients });
+
+    const repeat = await handleEODRequest(member, "2026-03-10", {}, { clients });
+    expect(repeat).toMatchObject({ skipped: true });
+    expect(slack.posts).toHaveLength(1);
+
+    await handleEODRequest(member, "2026-03-10", {}, { clients, force: true });
+    expect(slack.posts).toHaveLength(1);
+    expect(slack.updates).toEqual([
+      expect.objectContaining({ channel: "D042DEV", ts: slack.posts[0].ts }),
+    ]);
+  });
+
+  it("updates a plain channel post when forced instead of posting again", async () => {
+    const member = memberFromEnv();
+    const delivery = { channels: ["#standup"] };
+    await handleEODRequest(member, "2026-03-10", delivery, { clients });
+
+    const rerun = await handleEODRequest(member, "2026-03-10", delivery, {
+      clients,
+      force: true,
+    });
+    expect(slack.posts).toHaveLength(1);
+    expect(slack.posts[0].channel).toBe("C0STANDUP");
+    expect(slack.updates).toEqual([
+      expect.objectContaining({ channel: "C0STANDUP", ts: slack.posts[0].ts }),
+    ]);
+    expect("deliveries" in rerun && rerun.deliveries[0]).toMatchObject({ updated: true });
+  });
+
+  it("posts a reviewed summary to standup through the run history", async () => {
+    const member = memberFromEnv();
+    const summary = "*EOD UPDATE*\n• Reviewed by hand";
+    await postReviewedEOD(member, "2026-03-10", summary, { clients });
+
+    expect(slack.posts).toHaveLength(1);
+    expect(slack.posts[0].channel).toBe("C0STANDUP");
+    expect(slack.posts[0].text).toContain("Reviewed by hand");
+    expect(slack.posts[0].blocks?.length).toBeGreaterThan(1);
+
+    // The scheduled run to the same channel finds the day already sent
+    const scheduled = await handleEODRequest(
+      member,
+      "2026-03-10",
+      { channels: ["#standup"] },
+      { clients }
+    );
+    expect(scheduled).toMatchObject({ skipped: true });
+
+    // Posting again from the preview edits the message
+    await postReviewedEOD(member, "2026-03-10", `${summary} (edited)`, { clients });
+    expect(slack.posts).toHaveLength(1);
+    expect(slack.updates).toEqual([
+      expect.objectContaining({ channel: "C0STANDUP", ts: slack.posts[0].ts }),
+    ]);
+  });
+
+  it("posts once when two runs for the same day start together", async () => {
+    const member = memberFromEnv();
+    const results = await Promise.all([
+      handleEODRequest(member, "2026-03-10", {}, { clients }),
+      handleEODRequest(member, "2026-03-10", {}, { clients, force: true }),
+    ]);
+
+    expect(slack.posts).toHaveLength(1);
+    expect(results.filter((r) => "skipped" in r && r.skipped)).toHaveLength(1);
+  });
+
+  it("records a failed delivery so the next run retries it", async () => {
+    const member = memberFromEnv();
+    const postMessage = slack.api.chat.postMessage;
+    slack.api.chat.postMessage = (async () => {
+      throw new Error("channel_not_found");
+    }) as any;
+
+    await expect(handleEODRequest(member, "2026-03-10", {}, { clients })).rejects.toThrow(
+      "channel_not_found"
+    );
+    const [run] = await clients.store!().list({ user: member.id });
+    expect(run).toMatchObject({ status: "failed", attempts: 1, error: "channel_not_found" });
+
+    slack.api.chat.postMessage = postMessage;
+    const retry = await handleEODRequest(member, "2026-03-10", {}, { clients });
+    expect(retry).not.toHaveProperty("skipped");
+    expect(slack.posts).toHaveLength(1);
+  });
+});
@@ -0,0 +1,61 @@
+import { createGitlabClient, GitlabTransport } from "@/lib/gitlab";
+import recorded from "../fixtures/gitlab-day.json";
+
+/** One recorded response; `params` must be a subset of the request's query */
+export type GitlabRoute = {
+  path: string;
+  params?: Record<string, unknown>;
+  data: unknown;
+  /** Answer with this HTTP status instead (e.g. 500) */
+  status?: number;
+};
+
+export const gitlabDayRoutes = recorded.routes as GitlabRoute[];
+
+/** What a failing or missing route throws: an axios-shaped error */
+function httpError(status: number, path: string) {
+  return Object.assign(new Error(`Request failed with status code ${status}`), {
+    response: { status, data: { message: `${status} ${path}` }, headers: {} },
+  });
+}
+
+/**
+ * A GitLab client answering from recorded routes (first match wins, so put
+ * the more specific ones first). Unknown calls get a 404; every call is kept
+ * in `calls` for assertions.
+ */
+export function fixtureGitlab(routes: GitlabRoute[] = gitlabDayRoutes) {
+  const api = process.env.GITLAB_API!;
+  const calls: Array<{ path: string; params: Record<string, unknown> }> = [];
+
+  const transport: GitlabTransport = async (url, params = {}) => {
+    const path = url.replace(api, "").split("?")[0];
+    calls.push({ path, params });
+    const route = routes.find(
+      (r) =>
+        r.path === path &&
+        Object.entries(r.params ?? {}).every(
+          ([key, value]) => String(params[key]) === String(value)
+        )
+    );
+    if (!route) throw httpError(404, path);
+    if (route.status) throw httpError(route.status, path);
+    return { data: structuredClone(route.data), headers: {} };
+  };
+
+  return {
+    calls,
+    /** For EodClients.gitlab */
+    client: () => createGitlabClient({ transport }),
+  };
+}
+
+/** The recorded routes, with calls to `path` (matching `params`) answering `status` */
+export function withFailure(
+  path: string,
+  status: number,
+  params?: Record<string, unknown>,
+  routes: GitlabRoute[] = gitlabDayRoutes
+): GitlabRoute[] {
+  return [{ path, params, data: null, status }, ...routes];
+}
@@ -0,0 +1,58 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { createOpenAISummarizer } from "@/lib/summarizers/openai";
+
+type StubReply = { status?: number; content?: string; body?: unknown };
+
+/**
+ * A local OpenAI-compatible endpoint: POST /chat/completions answers with
+ * `reply(messages)` (a status and/or the assistant's content), GET
+ * /models/:id echoes the model. Requests are recorded.
+ */
+export async function startOpenAIStub(
+  reply: (messages: Array<{ role: string; content: string }>) => StubReply
+) {
+  const requests: any[] = [];
+
+  const server = http.createServer(async (req, res) => {
+    let raw = "";
+    for await (const chunk of req) raw += chunk;
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { "content-type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method === "GET" && req.url?.startsWith("/models/")) {
+      return send(200, { id: req.url.slice("/models/".length), object: "model" });
+    }
+    if (req.method !== "POST" || req.url !== "/chat/completions") {
+      return send(404, { error: { message: "not found" } });
+    }
+
+    const body = JSON.parse(raw);
+    requests.push(body);
+    const { status = 200, content, body: errorBody } = reply(body.messages);
+    if (status !== 200) {
+      return send(status, errorBody ?? { error: { message: `stub ${status}` } });
+    }
+    send(200, {
+      id: `chatcmpl-${requests.length}`,
+      object: "chat.completion",
+      created: 0,
+      model: body.model,
+      choices: [
+        { index: 0, finish_reason: "stop", message: { role: "assistant", content } },
+      ],
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    baseUrl,
+    requests,
+    summarizer: createOpenAISummarizer({ apiKey: "sk-test", baseUrl, model: "stub-model" }),
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
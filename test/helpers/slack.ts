@@ -0,0 +1,47 @@
+import type { SlackApi } from "@/lib/slack";
+
+type Posted = { channel: string; ts: string; text?: string; blocks?: any[]; thread_ts?: string };
+
+/**
+ * In-memory stand-in for the Slack Web API methods the EOD uses. DMs open as
+ * "D" + the member id; every post / update is recorded.
+ */
+export function fakeSlack(botUserId = "UBOT") {
+  const posts: Posted[] = [];
+  const updates: Posted[] = [];
+  let clock = 1_773_100_000;
+  const nextTs = () => `${clock++}.000100`;
+  const dmFor = (user: string) => `D${user.replace(/^U/, "")}`;
+
+  const api = {
+    auth: {
+      test: async () => ({ ok: true, user_id: botUserId, team: "Test", user: "eod-bot" }),
+    },
+    chat: {
+      postMessage: async (args: any) => {
+        const channel = args.channel.startsWith("U") ? dmFor(args.channel) : args.channel;
+        const post = { ...args, channel, ts: nextTs() };
+        posts.push(post);
+        return { ok: true, channel, ts: post.ts };
+      },
+      update: async (args: any) => {
+        updates.push(args);
+        return { ok: true, channel: args.channel, ts: args.ts };
+      },
+      getPermalink: async (args: any) => ({
+        ok: true,
+        permalink: `https://slack.test/archives/${args.channel}/p${args.message_ts.replace(".", "")}`,
+      }),
+    },
+    conversations: {
+      open: async (args: any) => ({ ok: true, channel: { id: dmFor(args.users) } }),
+      list: async () => ({ ok: true, channels: [{ id: "C0STANDUP", name: "standup" }] }),
+      history: async (args: any) => ({
+        ok: true,
+        messages: posts.filter((p) => p.channel === args.channel && !p.thread_ts),
+      }),
+    },
+  };
+
+  return { api: api as unknown as SlackApi, posts, updates };
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { collectOpenWork } from "@/lib/openwork";
+import { memberFromEnv } from "@/lib/roster";
+import { fixtureGitlab, GitlabRoute } from "./helpers/gitlab";
+
+const now = new Date("2026-03-10T18:00:00.000Z");
+
+/** One open, unapproved MR opened 10 days before `now` */
+function routes(discussions: unknown[]): GitlabRoute[] {
+  const mr = {
+    project_id: 101,
+    iid: 9,
+    title: "Add audit log",
+    web_url: "https://gitlab.test/acme/backend/-/merge_requests/9",
+    references: { full: "acme/backend!9" },
+    source_branch: "feature/audit-log",
+    draft: false,
+    reviewers: [{ username: "alice" }],
+    created_at: "2026-02-28T09:00:00.000Z",
+    updated_at: "2026-03-10T08:00:00.000Z",
+  };
+  return [
+    { path: "/merge_requests", params: { state: "opened" }, data: [mr] },
+    { path: "/projects/101/merge_requests/9", data: mr },
+    { path: "/projects/101/merge_requests/9/approvals", data: { approved: false } },
+    { path: "/projects/101/merge_requests/9/discussions", data: discussions },
+    { path: "/issues", data: [] },
+  ];
+}
+
+const readyNote = (created_at: string) => ({
+  notes: [{ system: true, body: "marked this merge request as **ready**", created_at }],
+});
+
+async function blockers(discussions: unknown[]) {
+  const gitlab = fixtureGitlab(routes(discussions)).client();
+  const work = await collectOpenWork(memberFromEnv(), "2026-03-10", now, gitlab);
+  return work.blockers.map((b) => b.reason);
+}
+
+describe("waiting on review", () => {
+  it("counts from when the MR was marked ready", async () => {
+    expect(await blockers([readyNote("2026-03-05T10:00:00.000Z")])).toEqual([
+      "waiting on review for 5 days (alice)",
+    ]);
+    expect(await blockers([readyNote("2026-03-09T10:00:00.000Z")])).toEqual([]);
+  });
+
+  it("falls back to the last update without a ready note", async () => {
+    expect(await blockers([])).toEqual([]);
+  });
+});
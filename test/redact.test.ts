@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import type { OpenMergeRequest, OpenWork } from "@/lib/openwork";
+import { RedactionConfig, redactForModel } from "@/lib/redact";
+import type { ActivityItem } from "@/lib/sources";
+
+const config = (overrides: Partial<RedactionConfig>): RedactionConfig => ({
+  rules: [],
+  denyProjects: [],
+  denyBranches: [],
+  stripDescriptions: [],
+  secrets: true,
+  stripUrls: false,
+  ...overrides,
+});
+
+const item = (project: string, path: string): ActivityItem => ({
+  source: "gitlab",
+  kind: "merge_request",
+  id: "7",
+  project,
+  title: "Ship the contract export",
+  web_url: `https://gitlab.test/${path}/-/merge_requests/7`,
+  branch: "feature/export",
+  description: "Customer: Initech",
+});
+
+const openMr = (project: string, branch: string): OpenMergeRequest => ({
+  project,
+  title: "Ship the contract export",
+  web_url: `https://gitlab.test/${project}/-/merge_requests/7`,
+  branch,
+  draft: false,
+  approved: false,
+  unresolvedThreads: 0,
+  hasConflicts: false,
+  reviewers: ["alice"],
+  ageDays: 4,
+  reviewWaitDays: 3,
+});
+
+const openWork = (mr: OpenMergeRequest, reason: string): OpenWork => ({
+  mergeRequests: [mr],
+  issues: [],
+  blockers: [{ title: mr.title, web_url: mr.web_url, reason }],
+});
+
+describe("project globs", () => {
+  it("match open work by the last segment of its full path", () => {
+    const { openWork: masked, report } = redactForModel(
+      { items: [], openWork: openWork(openMr("acme/nda-x", "main"), "merge conflicts") },
+      config({ denyProjects: ["nda-*"] })
+    );
+
+    expect(masked!.mergeRequests[0]).toMatchObject({
+      project: "restricted",
+      title: "(restricted)",
+      web_url: "",
+    });
+    expect(masked!.blockers[0]).toMatchObject({ title: "(restricted)", web_url: "" });
+    expect(report.restricted).toEqual([{ item: "W1", reason: 'project matches "nda-*"' }]);
+  });
+
+  it("match short-named activity by its full path", () => {
+    const { items, report } = redactForModel(
+      { items: [item("nda-x", "acme/nda-x"), item("backend", "acme/backend")] },
+      config({ denyProjects: ["acme/nda-*"], stripDescriptions: ["acme/backend"] })
+    );
+
+    expect(items[0]).toMatchObject({ project: "restricted", title: "(restricted)" });
+    expect(items[1]).toMatchObject({ project: "backend", description: undefined });
+    expect(report.strippedDescriptions).toEqual(["MR2"]);
+  });
+});
+
+describe("open work", () => {
+  it("masks MRs from deny-listed branches and their blockers", () => {
+    const { openWork: masked, report } = redactForModel(
+      {
+        items: [],
+        openWork: openWork(openMr("acme/backend", "nda/initech"), "pipeline failing"),
+      },
+      config({ denyBranches: ["nda/*"] })
+    );
+
+    expect(masked!.mergeRequests[0]).toMatchObject({ title: "(restricted)", branch: undefined });
+    expect(masked!.blockers[0]).toEqual({
+      title: "(restricted)",
+      web_url: "",
+      reason: "pipeline failing",
+    });
+    expect(report.restricted).toEqual([
+      { item: "W1", reason: 'branch matches "nda/*"' },
+    ]);
+  });
+
+  it("runs blocker reasons through the rules and the secret scrubber", () => {
+    const { openWork: masked, report } = redactForModel(
+      {
+        items: [],
+        openWork: openWork(
+          openMr("acme/backend", "main"),
+          "waiting on review for 4 days (alice) token=hunter2hunter2"
+        ),
+      },
+      config({ rules: [{ name: "people", pattern: /\balice\b/g, replace: "[person]" }] })
+    );
+
+    expect(masked!.blockers[0].reason).toBe(
+      "waiting on review for 4 days ([person]) token=[secret]"
+    );
+    expect(report.redacted).toEqual([
+      { item: "B1", field: "reason", rule: "secret:assignment", matches: 1 },
+      { item: "B1", field: "reason", rule: "people", matches: 1 },
+    ]);
+  });
+});
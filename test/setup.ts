@@ -0,0 +1,28 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+/**
+ * A complete, fake environment: every client is replaced in the tests (see
+ * test/helpers), so nothing here is ever used to reach a real service.
+ */
+Object.assign(process.env, {
+  GITLAB_API: "https://gitlab.test/api/v4",
+  GITLAB_TOKEN: "glpat-test",
+  GITLAB_USER_ID: "42",
+  GITLAB_EMAIL: "dev@example.com",
+  GITLAB_USERNAME: "dev",
+  GITLAB_PROJECT_IDS: "101",
+  GITLAB_PIPELINES: "false",
+  SLACK_BOT_TOKEN: "xoxb-test",
+  SLACK_USER_ID: "U042DEV",
+  SLACK_STANDUP_CHANNEL: "#standup",
+  AI_API_KEY: "sk-test",
+  AI_MODEL_NAME: "stub-model",
+  EOD_TIMEZONE: "UTC",
+  EOD_HTTP_RETRIES: "0",
+  EOD_STORE_PATH: path.join(
+    fs.mkdtempSync(path.join(os.tmpdir(), "eod-test-")),
+    "history.json"
+  ),
+});
@@ -0,0 +1,72 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { beforeEach, describe, expect, it } from "vitest";
+import { createJsonFileStore, EodRun } from "@/lib/store";
+
+let filePath: string;
+
+beforeEach(() => {
+  filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "eod-store-")), "history.json");
+});
+
+function run(id: string, day = "2026-03-10"): EodRun {
+  return {
+    id,
+    user: "dev",
+    kind: "daily",
+    day,
+    since: `${day}T00:00:00.000Z`,
+    until: `${day}T23:59:59.999Z`,
+    status: "sent",
+    deliveries: [],
+    attempts: 1,
+    createdAt: `${day}T18:00:00.000Z`,
+    updatedAt: `${day}T18:00:00.000Z`,
+  };
+}
+
+describe("JSON file store", () => {
+  it("keeps runs saved by separate stores on the same path", async () => {
+    // Two processes sharing the history
+    const a = createJsonFileStore(filePath);
+    const b = createJsonFileStore(filePath);
+    await Promise.all([a.save(run("one")), b.save(run("two", "2026-03-11"))]);
+
+    expect((await a.list()).map((r) => r.id)).toEqual(["two", "one"]);
+    expect(await b.get("one")).toMatchObject({ id: "one", status: "sent" });
+  });
+
+  it("still reads a history written as a single file", async () => {
+    fs.writeFileSync(filePath, JSON.stringify({ old: run("old") }));
+    const store = createJsonFileStore(filePath);
+    await store.save({ ...run("old"), status: "failed" });
+
+    expect(await store.get("old")).toMatchObject({ status: "failed" });
+    expect(await store.list()).toHaveLength(1);
+  });
+
+  it("lets one claim through until it is released", async () => {
+    const a = createJsonFileStore(filePath);
+    const b = createJsonFileStore(filePath);
+
+    expect(await a.claim("run", 60_000)).toBe(true);
+    expect(await b.claim("run", 60_000)).toBe(false);
+    await b.release("run");
+    expect(await b.claim("run", 60_000)).toBe(false);
+
+    await a.release("run");
+    expect(await b.claim("run", 60_000)).toBe(true);
+  });
+
+  it("takes over a stale claim, and the old owner's release leaves it alone", async () => {
+    const crashed = createJsonFileStore(filePath);
+    const next = createJsonFileStore(filePath);
+
+    expect(await crashed.claim("run", 60_000)).toBe(true);
+    expect(await next.claim("run", 0)).toBe(true);
+
+    await crashed.release("run");
+    expect(await createJsonFileStore(filePath).claim("run", 60_000)).toBe(false);
+  });
+});
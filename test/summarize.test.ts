@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { generateEOD } from "@/lib/eod";
+import { memberFromEnv } from "@/lib/roster";
+import { fixtureGitlab } from "./helpers/gitlab";
+import { startOpenAIStub } from "./helpers/openai";
+
+type Stub = Awaited<ReturnType<typeof startOpenAIStub>>;
+let stub: Stub | undefined;
+
+afterEach(async () => {
+  await stub?.close();
+  stub = undefined;
+});
+
+async function generateWith(reply: Parameters<typeof startOpenAIStub>[0]) {
+  stub = await startOpenAIStub(reply);
+  const { summarizer } = stub;
+  return generateEOD(memberFromEnv(), "2026-03-10", {
+    clients: { gitlab: fixtureGitlab().client, summarizer: () => summarizer },
+  });
+}
+
+const VALID_ANSWER = JSON.stringify({
+  done: [
+    {
+      title: "Login",
+      bullets: [{ text: "Opened the login page MR", refs: ["MR1", "C3"] }],
+    },
+    {
+      title: "Sessions",
+      bullets: [{ text: "Merged the Redis session store", refs: ["MR2", "C2"] }],
+    },
+  ],
+  next: [{ text: "Get the login page reviewed", refs: ["W1"] }],
+  blockers: [],
+});
+
+describe("summarizing a daily EOD", () => {
+  it("renders the model's cited answer", async () => {
+    const report = await generateWith(() => ({ content: VALID_ANSWER }));
+
+    expect(report.aiFailed).toBe(false);
+    expect(report.summarizer).toBe("openai");
+    expect(report.summary).toContain("Merged the Redis session store");
+    expect(report.structured?.next[0].refs).toEqual(["W1"]);
+
+    // The prompt carries the refs the answer cites
+    const [request] = stub!.requests;
+    expect(request.model).toBe("stub-model");
+    const prompt = request.messages.at(-1).content;
+    expect(prompt).toContain("MR1 [backend] Add login page");
+    expect(prompt).toContain("W1");
+  });
+
+  it("falls back to the template when the model errors", async () => {
+    const report = await generateWith(() => ({ status: 500 }));
+
+    expect(report.aiFailed).toBe(true);
+    expect(report.summarizer).toBe("template");
+    expect(report.summary).toContain("Refactor session store");
+    expect(report.summary).toContain("Add login page");
+  });
+
+  it("retries an invalid answer once, then falls back", async () => {
+    const report = await generateWith(() => ({ content: "Sure! Here is your EOD." }));
+
+    expect(stub!.requests).toHaveLength(2);
+    expect(stub!.requests[1].messages.at(-1).content).toContain(
+      "Your previous answer was rejected"
+    );
+    expect(report.aiFailed).toBe(true);
+    expect(report.summarizer).toBe("template");
+  });
+
+  it("drops bullets citing refs that are not in the activity", async () => {
+    const answer = JSON.parse(VALID_ANSWER);
+    answer.done[0].bullets.push({ text: "Rewrote billing", refs: ["MR9"] });
+    const report = await generateWith(() => ({ content: JSON.stringify(answer) }));
+
+    expect(report.aiFailed).toBe(false);
+    expect(report.summary).not.toContain("Rewrote billing");
+    expect(report.rejected).toEqual([
+      expect.objectContaining({ text: "Rewrote billing", refs: ["MR9"] }),
+    ]);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { computeRangeWindow, computeWindow, parseWorkingHours } from "@/lib/window";
+
+describe("computeWindow", () => {
+  it("covers a dated weekday from the previous local midnight", () => {
+    const window = computeWindow({ timezone: "UTC", date: "2026-03-10" });
+    expect(window.since.toISOString()).toBe("2026-03-10T00:00:00.000Z");
+    expect(window.until.toISOString()).toBe("2026-03-11T00:00:00.000Z");
+    expect(window.day).toBe("2026-03-10");
+    expect(window.labelDay).toBe("Tue");
+  });
+
+  it("stretches Monday back over the weekend", () => {
+    const window = computeWindow({ timezone: "UTC", date: "2026-03-09" });
+    expect(window.since.toISOString()).toBe("2026-03-07T00:00:00.000Z");
+    expect(window.until.toISOString()).toBe("2026-03-10T00:00:00.000Z");
+  });
+
+  it("uses working-hours edges in the member's timezone", () => {
+    const window = computeWindow({
+      timezone: "Asia/Kolkata",
+      workingHours: parseWorkingHours("09:00-19:00"),
+      date: "2026-03-10",
+    });
+    // 19:00 IST = 13:30 UTC, from the previous working day's end
+    expect(window.since.toISOString()).toBe("2026-03-09T13:30:00.000Z");
+    expect(window.until.toISOString()).toBe("2026-03-10T13:30:00.000Z");
+  });
+
+  it("follows DST changes in the member's timezone", () => {
+    // Clocks in New York go forward on 2026-03-08
+    const window = computeWindow({ timezone: "America/New_York", date: "2026-03-09" });
+    expect(window.since.toISOString()).toBe("2026-03-07T05:00:00.000Z");
+    expect(window.until.toISOString()).toBe("2026-03-10T04:00:00.000Z");
+  });
+
+  it("stops at now for today with working hours", () => {
+    const now = new Date("2026-03-10T12:00:00Z");
+    const window = computeWindow({
+      timezone: "UTC",
+      workingHours: { start: "09:00", end: "18:00" },
+      now,
+    });
+    expect(window.since.toISOString()).toBe("2026-03-09T18:00:00.000Z");
+    expect(window.until).toEqual(now);
+  });
+
+  it("rolls 24h back without date or working hours (72h on Mondays)", () => {
+    const tuesday = computeWindow({ timezone: "UTC", now: new Date("2026-03-10T17:00:00Z") });
+    expect(tuesday.since.toISOString()).toBe("2026-03-09T17:00:00.000Z");
+
+    const monday = computeWindow({ timezone: "UTC", now: new Date("2026-03-09T17:00:00Z") });
+    expect(monday.since.toISOString()).toBe("2026-03-06T17:00:00.000Z");
+  });
+
+  it("rejects malformed dates and hours", () => {
+    expect(() => computeWindow({ date: "10/03/2026" })).toThrow(/YYYY-MM-DD/);
+    expect(() => parseWorkingHours("19:00-09:00")).toThrow(/start must be before end/);
+  });
+});
+
+describe("computeRangeWindow", () => {
+  it("spans the same edges as the daily windows inside it", () => {
+    const range = computeRangeWindow({
+      timezone: "UTC",
+      from: "2026-03-09",
+      to: "2026-03-13",
+      now: new Date("2026-03-20T00:00:00Z"),
+    });
+    expect(range.since).toEqual(computeWindow({ timezone: "UTC", date: "2026-03-09" }).since);
+    expect(range.until).toEqual(computeWindow({ timezone: "UTC", date: "2026-03-13" }).until);
+  });
+});